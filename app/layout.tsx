@@ -2,6 +2,7 @@ import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
 import './globals.css';
 import { GenomeProvider } from '@/components/GenomeProvider';
+import { SkipLink } from '@/components/SkipLink';
 
 const inter = Inter({ subsets: ['latin'] });
 
@@ -18,6 +19,7 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={inter.className}>
+        <SkipLink />
         <GenomeProvider>
           {children}
         </GenomeProvider>
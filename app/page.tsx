@@ -15,7 +15,7 @@ export default function Home() {
   ]);
 
   return (
-    <main className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-genome-spacious">
+    <main id="main" className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-genome-spacious">
       <div className="max-w-6xl mx-auto">
         {/* Header */}
         <header className="mb-genome-spacious">
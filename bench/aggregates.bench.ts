@@ -0,0 +1,111 @@
+/**
+ * Aggregates Benchmark
+ *
+ * Compares the previous signal handling (array buffer trimmed with shift,
+ * every inference pass re-scanning the window) with streaming aggregates
+ * (ring buffer, O(1) updates and reads). Run with `npm run bench`.
+ */
+
+import { SignalCollection, UXGenome } from '@/types/genome';
+import { DEFAULT_GENOME } from '@/store/genomeStore';
+import { TraitInferenceEngine } from '@/lib/inference/engine';
+import { RingBuffer } from '@/lib/stats/ring';
+import { SignalAggregates } from '@/lib/stats/aggregates';
+
+const WINDOW_SIZES = [1000, 10000, 100000];
+const INFERENCE_PASSES = 20;
+const SIGNAL_INTERVAL = 50; // ms between generated signals
+
+function generateSignals(count: number, start: number): SignalCollection[] {
+  let seed = 42;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  const device = { deviceType: 'desktop' as const, pointerType: 'mouse' as const, viewportWidth: 1440 };
+
+  return Array.from({ length: count }, (_, i): SignalCollection => {
+    const timestamp = start + i * SIGNAL_INTERVAL;
+    switch (i % 5) {
+      case 0:
+        return { type: 'click', timestamp, device, data: { timeToClick: random() * 600, correctionCount: Math.floor(random() * 3), targetSize: random() * 2000, missDistance: random() * 10 } };
+      case 1:
+        return { type: 'cursor', timestamp, device, data: { velocity: random() * 2, acceleration: 0, jitter: random() * 20, pathLength: 100 } };
+      case 2:
+        return { type: 'scroll', timestamp, device, data: { delta: 100, velocity: 1, direction: 'down', reversalCount: Math.floor(random() * 4), timeSinceLastScroll: SIGNAL_INTERVAL } };
+      case 3:
+        return { type: 'hover', timestamp, device, data: { element: 'button', dwellTime: random() * 900, triggered: false } };
+      default:
+        return { type: 'focus', timestamp, device, data: { element: 'input', timeToFocus: random() * 2000, tabCount: 1, focusVisible: false, viaTab: false } };
+    }
+  });
+}
+
+function time(run: () => void): number {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+}
+
+function format(ms: number): string {
+  return `${ms.toFixed(2)}ms`.padStart(12);
+}
+
+function benchBuffers(signals: SignalCollection[], capacity: number) {
+  const array = time(() => {
+    const buffer: SignalCollection[] = [];
+    signals.forEach((signal) => {
+      buffer.push(signal);
+      if (buffer.length > capacity) buffer.shift();
+    });
+  });
+
+  const ring = time(() => {
+    const buffer = new RingBuffer<SignalCollection>(capacity);
+    signals.forEach(signal => buffer.push(signal));
+  });
+
+  return { array, ring };
+}
+
+function benchInference(genome: UXGenome, signals: SignalCollection[]) {
+  const end = signals[signals.length - 1].timestamp;
+  const windowMs = signals.length * SIGNAL_INTERVAL;
+  const engine = new TraitInferenceEngine({ clock: () => end });
+
+  // Previous approach: every pass filters the window and re-scans it
+  const rescan = time(() => {
+    for (let pass = 0; pass < INFERENCE_PASSES; pass++) {
+      const window = signals.filter(s => s.timestamp >= end - windowMs);
+      engine.inferWithEvidence(genome, window);
+    }
+  });
+
+  // Streaming: signals are folded in as they arrive, passes read summaries
+  const aggregates = new SignalAggregates({ halfLifeMs: windowMs / 2 });
+  const observe = time(() => signals.forEach(signal => aggregates.observe(signal)));
+  const streaming = time(() => {
+    for (let pass = 0; pass < INFERENCE_PASSES; pass++) {
+      engine.inferFromAggregates(genome, aggregates, 30000);
+    }
+  });
+
+  return { rescan: rescan / INFERENCE_PASSES, observe, streaming: streaming / INFERENCE_PASSES };
+}
+
+function main() {
+  console.log(`Buffer: ${Math.max(...WINDOW_SIZES)} pushes\n`);
+  console.log('capacity'.padEnd(10) + 'array+shift'.padStart(12) + 'ring'.padStart(12));
+  WINDOW_SIZES.forEach((capacity) => {
+    const signals = generateSignals(Math.max(...WINDOW_SIZES), Date.now());
+    const { array, ring } = benchBuffers(signals, capacity);
+    console.log(String(capacity).padEnd(10) + format(array) + format(ring));
+  });
+
+  console.log(`\nInference: average of ${INFERENCE_PASSES} passes\n`);
+  console.log('window'.padEnd(10) + 'rescan/pass'.padStart(12) + 'stream/pass'.padStart(12) + 'observe all'.padStart(12));
+  WINDOW_SIZES.forEach((size) => {
+    const signals = generateSignals(size, Date.now() - size * SIGNAL_INTERVAL);
+    const { rescan, observe, streaming } = benchInference(DEFAULT_GENOME, signals);
+    console.log(String(size).padEnd(10) + format(rescan) + format(streaming) + format(observe));
+  });
+}
+
+main();
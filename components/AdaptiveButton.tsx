@@ -15,6 +15,8 @@ interface AdaptiveButtonProps {
   variant?: 'primary' | 'secondary' | 'ghost';
   size?: 'small' | 'standard' | 'large';
   className?: string;
+  genomeId?: string; // opts the button into per-element tracking and adaptation
+  genomeRole?: string;
 }
 
 export function AdaptiveButton({
@@ -23,30 +25,32 @@ export function AdaptiveButton({
   variant = 'primary',
   size = 'standard',
   className,
+  genomeId,
+  genomeRole,
 }: AdaptiveButtonProps) {
   return (
     <button
       onClick={onClick}
+      data-genome-id={genomeId}
+      data-genome-role={genomeRole}
       className={clsx(
-        'transition-all duration-genome-balanced',
+        'transition-all duration-genome-balanced ease-genome',
         'rounded-lg font-medium',
-        'focus:outline-none focus:ring-2 focus:ring-genome-accent focus:ring-offset-2',
+        // Ring on keyboard focus, on every focus for keyboard-first users
+        'focus:outline-none focus-visible:ring-genome-focus genome-focus-rings:focus:ring-genome-focus focus:ring-genome-accent focus:ring-offset-2',
         {
           // Variants
           'bg-genome-primary text-white hover:bg-blue-600': variant === 'primary',
           'bg-gray-200 text-gray-900 hover:bg-gray-300': variant === 'secondary',
           'bg-transparent text-genome-primary hover:bg-gray-100': variant === 'ghost',
           
-          // Sizes (uses genome spacing)
-          'px-genome-compact py-genome-compact text-sm': size === 'small',
-          'px-genome-standard py-genome-standard text-base': size === 'standard',
-          'px-genome-spacious py-genome-spacious text-lg': size === 'large',
+          // Sizes (uses genome spacing and button heights)
+          'px-genome-compact py-genome-compact text-sm min-h-genome-button-small': size === 'small',
+          'px-genome-standard py-genome-standard text-base min-h-genome-button-standard': size === 'standard',
+          'px-genome-spacious py-genome-spacious text-lg min-h-genome-button-large': size === 'large',
         },
         className
       )}
-      style={{
-        minHeight: `var(--genome-button-${size}-height, auto)`,
-      }}
     >
       {children}
     </button>
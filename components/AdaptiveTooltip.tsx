@@ -1,13 +1,19 @@
 /**
  * Adaptive Tooltip Component
  * 
- * Adapts delay and duration based on guidance need trait.
+ * Adapts delay and duration based on guidance need trait, and reports
+ * when its tooltip is shown and dismissed so guidance need is learned from
+ * actual engagement. Users with minimal guidance need still get tooltips,
+ * after a long hover or on focus, so that need can be learned back up.
  */
 
 'use client';
 
-import { ReactNode, useState, useEffect } from 'react';
+import { ReactNode, useState, useEffect, useRef } from 'react';
 import { useGenomeStore } from '@/store/genomeStore';
+import { useSignalCapture } from './GenomeProvider';
+import { getElementAttribution } from '@/lib/signals/capture';
+import { ElementAttribution } from '@/types/genome';
 import clsx from 'clsx';
 
 interface AdaptiveTooltipProps {
@@ -24,28 +30,58 @@ export function AdaptiveTooltip({
   const [isVisible, setIsVisible] = useState(false);
   const [hoverStart, setHoverStart] = useState<number | null>(null);
   const { genome } = useGenomeStore();
+  const capture = useSignalCapture();
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const shownRef = useRef<{ at: number; target?: ElementAttribution } | null>(null);
 
   // Get tooltip delay from genome
   const getTooltipDelay = () => {
     const delays = {
-      minimal: 1000,
+      minimal: 1500, // long enough that passing over doesn't trigger it
       contextual: 500,
       strong: 200,
     };
     return delays[genome.guidanceNeed];
   };
 
+  const show = (requestedAt: number) => {
+    if (shownRef.current) return;
+    setIsVisible(true);
+    const shown = { at: Date.now(), target: getElementAttribution(wrapperRef.current) };
+    shownRef.current = shown;
+    capture?.record({
+      type: 'tooltipshown',
+      timestamp: shown.at,
+      data: { delay: shown.at - requestedAt },
+      target: shown.target,
+    });
+  };
+
   useEffect(() => {
     if (hoverStart === null) return;
 
-    const delay = getTooltipDelay();
-    const timer = setTimeout(() => {
-      setIsVisible(true);
-    }, delay);
-
+    const timer = setTimeout(() => show(hoverStart), getTooltipDelay());
     return () => clearTimeout(timer);
   }, [hoverStart, genome.guidanceNeed]);
 
+  // How long the tooltip stayed up tells read from dismissed early
+  const reportDismissed = () => {
+    const shown = shownRef.current;
+    if (!shown) return;
+    shownRef.current = null;
+    
+    const now = Date.now();
+    capture?.record({
+      type: 'tooltipdismissed',
+      timestamp: now,
+      data: { visibleDuration: now - shown.at },
+      target: shown.target,
+    });
+  };
+
+  // Unmounting while visible dismisses it too
+  useEffect(() => () => reportDismissed(), [capture]);
+
   const handleMouseEnter = () => {
     setHoverStart(Date.now());
   };
@@ -53,18 +89,22 @@ export function AdaptiveTooltip({
   const handleMouseLeave = () => {
     setHoverStart(null);
     setIsVisible(false);
+    reportDismissed();
   };
 
-  // Don't show tooltip if guidance need is minimal and user hovers briefly
-  if (genome.guidanceNeed === 'minimal' && !isVisible) {
-    return <>{children}</>;
-  }
+  // Focusing the control is an explicit request, so no delay
+  const handleFocus = () => {
+    show(Date.now());
+  };
 
   return (
     <div
+      ref={wrapperRef}
       className="relative inline-block"
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
+      onFocus={handleFocus}
+      onBlur={handleMouseLeave}
     >
       {children}
       {isVisible && (
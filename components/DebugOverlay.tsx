@@ -0,0 +1,241 @@
+/**
+ * Debug Overlay (development only)
+ *
+ * Visualizes the live signal stream, the inference schedule and every CSS
+ * variable change made by the adaptation layer. GenomeProvider only loads
+ * this component outside production builds.
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { SignalCapture } from '@/lib/signals/capture';
+import { SignalCollection } from '@/types/genome';
+import { useGenomeStore } from '@/store/genomeStore';
+import { hardestToHit, mostHesitatedOver } from '@/lib/stats/elements';
+
+interface DebugOverlayProps {
+  capture: SignalCapture;
+  getNextInferenceAt: () => number | null; // when the pending debounced inference runs
+}
+
+interface VariableChange {
+  at: number;
+  name: string;
+  from: string | null;
+  to: string | null;
+}
+
+const RATE_WINDOW = 5000; // ms over which signal rates are averaged
+const SPARKLINE_POINTS = 60;
+const MAX_LOG_ENTRIES = 50;
+const REFRESH_INTERVAL = 250; // ms
+const VARIABLE_PREFIX = '--genome-';
+
+export function DebugOverlay({ capture, getNextInferenceAt }: DebugOverlayProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const [, setTick] = useState(0);
+  const [changes, setChanges] = useState<VariableChange[]>([]);
+  const elementStats = useGenomeStore(state => state.elementStats);
+  const timestampsRef = useRef<Partial<Record<SignalCollection['type'], number[]>>>({});
+  const seriesRef = useRef({ jitter: [] as number[], velocity: [] as number[], reversals: [] as number[] });
+
+  // Signal rates and sparkline series
+  useEffect(() => {
+    const push = (series: number[], value: number) => {
+      series.push(value);
+      if (series.length > SPARKLINE_POINTS) series.shift();
+    };
+
+    const track = (signal: SignalCollection) => {
+      const timestamps = timestampsRef.current[signal.type] ?? [];
+      timestamps.push(signal.timestamp);
+      timestampsRef.current[signal.type] = timestamps.filter(t => signal.timestamp - t <= RATE_WINDOW);
+
+      if (signal.type === 'cursor') {
+        push(seriesRef.current.jitter, signal.data.jitter);
+        push(seriesRef.current.velocity, signal.data.velocity);
+      } else if (signal.type === 'scroll') {
+        push(seriesRef.current.reversals, signal.data.reversalCount);
+      }
+    };
+
+    const unsubscribe = capture.subscribe(track);
+    // Cursor signals only leave the pipeline while the overlay shows them
+    const unsubscribeCursor = isOpen ? capture.subscribeCursor(signals => signals.forEach(track)) : null;
+    return () => {
+      unsubscribe();
+      unsubscribeCursor?.();
+    };
+  }, [capture, isOpen]);
+
+  // Diff the --genome-* variables on the root element whenever its inline style changes
+  useEffect(() => {
+    const root = document.documentElement;
+    let previous = readGenomeVariables(root);
+
+    const observer = new MutationObserver(() => {
+      const next = readGenomeVariables(root);
+      const diff: VariableChange[] = [];
+      const now = Date.now();
+
+      new Set([...Object.keys(previous), ...Object.keys(next)]).forEach((name) => {
+        if (previous[name] !== next[name]) {
+          diff.push({ at: now, name, from: previous[name] ?? null, to: next[name] ?? null });
+        }
+      });
+
+      previous = next;
+      if (diff.length > 0) {
+        setChanges(log => [...diff, ...log].slice(0, MAX_LOG_ENTRIES));
+      }
+    });
+    observer.observe(root, { attributes: true, attributeFilter: ['style'] });
+
+    return () => observer.disconnect();
+  }, []);
+
+  // Refresh rates, sparklines and the countdown
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setInterval(() => setTick(tick => tick + 1), REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isOpen]);
+
+  // Alt+Shift+D toggles the overlay
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey && e.shiftKey && e.code === 'KeyD') setIsOpen(open => !open);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-4 left-4 z-50 px-2 py-1 text-xs font-mono rounded bg-gray-900 text-gray-100 opacity-70 hover:opacity-100"
+      >
+        debug
+      </button>
+    );
+  }
+
+  const now = Date.now();
+  const rates = Object.entries(timestampsRef.current)
+    .map(([type, timestamps]) => ({
+      type,
+      rate: (timestamps ?? []).filter(t => now - t <= RATE_WINDOW).length / (RATE_WINDOW / 1000),
+    }))
+    .filter(({ rate }) => rate > 0)
+    .sort((a, b) => b.rate - a.rate);
+  const hardest = hardestToHit(elementStats);
+  const hesitated = mostHesitatedOver(elementStats);
+  const nextInferenceAt = getNextInferenceAt();
+  const countdown = nextInferenceAt !== null ? Math.max(0, nextInferenceAt - now) : null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 w-80 max-h-[80vh] overflow-y-auto p-3 rounded-lg bg-gray-900/90 text-gray-100 font-mono text-xs shadow-xl space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">UX Genome debug</span>
+        <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-gray-100">
+          hide
+        </button>
+      </div>
+
+      {/* Inference schedule */}
+      <div>
+        next inference:{' '}
+        {countdown !== null ? `${(countdown / 1000).toFixed(1)}s` : 'idle (waiting for signals)'}
+      </div>
+
+      {/* Signal rates */}
+      <div>
+        <div className="text-gray-400 mb-1">signals / s</div>
+        {rates.length === 0 && <div className="text-gray-500">no signals in the last {RATE_WINDOW / 1000}s</div>}
+        {rates.map(({ type, rate }) => (
+          <div key={type} className="flex justify-between">
+            <span>{type}</span>
+            <span>{rate.toFixed(1)}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Live sparklines */}
+      <Sparkline label="cursor jitter (px)" values={seriesRef.current.jitter} />
+      <Sparkline label="cursor velocity (px/ms)" values={seriesRef.current.velocity} />
+      <Sparkline label="scroll reversals" values={seriesRef.current.reversals} />
+
+      {/* Per-element reports (data-genome-id) */}
+      <div>
+        <div className="text-gray-400 mb-1">hardest to hit</div>
+        {hardest.length === 0 && <div className="text-gray-500">no tracked element missed yet</div>}
+        {hardest.map(entry => (
+          <div key={entry.id} className="flex justify-between">
+            <span className="truncate">{entry.id}{entry.role && <span className="text-gray-500"> ({entry.role})</span>}</span>
+            <span>{Math.round(entry.missRate * 100)}% missed, {Math.round(entry.meanMissDistance)}px</span>
+          </div>
+        ))}
+      </div>
+      <div>
+        <div className="text-gray-400 mb-1">most hesitated over</div>
+        {hesitated.length === 0 && <div className="text-gray-500">not enough data yet</div>}
+        {hesitated.map(entry => (
+          <div key={entry.id} className="flex justify-between">
+            <span className="truncate">{entry.id}{entry.role && <span className="text-gray-500"> ({entry.role})</span>}</span>
+            <span>{(entry.meanHesitation / 1000).toFixed(1)}s</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Adaptation changes */}
+      <div>
+        <div className="text-gray-400 mb-1">css variable changes</div>
+        {changes.length === 0 && <div className="text-gray-500">none yet</div>}
+        {changes.map((change, i) => (
+          <div key={`${change.at}-${change.name}-${i}`} className="break-all">
+            <span className="text-gray-500">{new Date(change.at).toLocaleTimeString()}</span>{' '}
+            {change.name}: <span className="text-red-300">{change.from ?? '∅'}</span> →{' '}
+            <span className="text-green-300">{change.to ?? '∅'}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Sparkline({ label, values }: { label: string; values: number[] }) {
+  const width = 288;
+  const height = 32;
+  const max = Math.max(1, ...values);
+  const points = values
+    .map((value, i) => `${(i / (SPARKLINE_POINTS - 1)) * width},${height - (value / max) * height}`)
+    .join(' ');
+  const latest = values[values.length - 1];
+
+  return (
+    <div>
+      <div className="flex justify-between text-gray-400 mb-1">
+        <span>{label}</span>
+        <span>{latest !== undefined ? latest.toFixed(2) : '–'}</span>
+      </div>
+      <svg width={width} height={height} className="bg-gray-800 rounded">
+        {values.length > 1 && (
+          <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1} className="text-genome-accent" />
+        )}
+      </svg>
+    </div>
+  );
+}
+
+function readGenomeVariables(root: HTMLElement): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (let i = 0; i < root.style.length; i++) {
+    const name = root.style[i];
+    if (name.startsWith(VARIABLE_PREFIX)) {
+      variables[name] = root.style.getPropertyValue(name).trim();
+    }
+  }
+  return variables;
+}
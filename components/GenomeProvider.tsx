@@ -7,80 +7,324 @@
 
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import dynamic from 'next/dynamic';
 import { SignalCapture } from '@/lib/signals/capture';
-import { TraitInferenceEngine } from '@/lib/inference/engine';
-import { useGenomeStore } from '@/store/genomeStore';
-import { generateAdaptationRules, applyAdaptationRules } from '@/lib/adaptation/rules';
+import { createSignalPipeline } from '@/lib/pipeline/pipeline';
+import { DriftDetector } from '@/lib/inference/drift';
+import { completePass } from '@/lib/inference/pass';
+import { AdaptationExperiments } from '@/lib/adaptation/experiment';
+import { OutcomeTracker } from '@/lib/adaptation/outcomes';
+import { getElementAdaptations, applyElementAdaptations } from '@/lib/adaptation/elements';
+import { ElementAggregates } from '@/lib/stats/elements';
+import { traitRegistry } from '@/lib/traits';
+import { getContextKey } from '@/lib/context/temporal';
+import { getPartitionKey } from '@/lib/context/device';
+import { detectOSPreferences, watchOSPreferences } from '@/lib/context/accessibility';
+import { UXGenome } from '@/types/genome';
+import { useGenomeStore, GENOME_STORAGE_KEY } from '@/store/genomeStore';
+import { GenomeSync, hasSyncableChanges } from '@/lib/sync/sync';
+import { SyncTransport, createTabTransport } from '@/lib/sync/transports';
+import { generateAdaptationRules, applyAdaptationRules, AdaptationRules, AdaptationScales } from '@/lib/adaptation/rules';
+import { PartialAdaptationPolicy } from '@/lib/adaptation/policy';
 
-export function GenomeProvider({ children }: { children: React.ReactNode }) {
+// Replaced by null at build time in production, so the overlay is tree-shaken out
+const DebugOverlay = process.env.NODE_ENV !== 'production'
+  ? dynamic(() => import('./DebugOverlay').then(m => m.DebugOverlay), { ssr: false })
+  : null;
+
+const INFERENCE_DELAY = 5000; // ms
+const SYNC_PUBLISH_INTERVAL = 10000; // ms; at most one local snapshot per interval goes to peers
+
+const SignalCaptureContext = createContext<SignalCapture | null>(null);
+
+/**
+ * The provider's signal capture, for components that report their own
+ * signals (null outside a GenomeProvider or before mount)
+ */
+export function useSignalCapture(): SignalCapture | null {
+  return useContext(SignalCaptureContext);
+}
+
+interface GenomeProviderProps {
+  children: React.ReactNode;
+  confirmDrift?: boolean; // ask the user before accepting a detected behavior change
+  experiments?: boolean; // test small variants of uncertain traits and learn from the outcome
+  trackOutcomes?: boolean; // judge each adaptation change and roll back harmful ones (default true)
+  debug?: boolean; // show the developer debug overlay (ignored in production builds)
+  syncTabs?: boolean; // merge genomes learned in other open tabs (default true)
+  syncTransports?: SyncTransport[]; // additional peers, e.g. a backend for multi-device sync
+  policy?: PartialAdaptationPolicy; // how traits map to rules, e.g. from parsePolicy; missing entries come from DEFAULT_POLICY
+  scales?: AdaptationScales; // base durations and spacing, e.g. from importScaleTokens
+}
+
+export function GenomeProvider({
+  children,
+  confirmDrift = false,
+  experiments = false,
+  trackOutcomes = true,
+  debug = false,
+  syncTabs = true,
+  syncTransports,
+  policy,
+  scales,
+}: GenomeProviderProps) {
   const [isMounted, setIsMounted] = useState(false);
   const captureRef = useRef<SignalCapture | null>(null);
-  const inferenceRef = useRef<TraitInferenceEngine | null>(null);
+  const driftRef = useRef<DriftDetector | null>(null);
+  const experimentsRef = useRef<AdaptationExperiments | null>(null);
+  const outcomesRef = useRef<OutcomeTracker | null>(null);
+  const elementsRef = useRef<ElementAggregates | null>(null);
+  const rulesRef = useRef<AdaptationRules | null>(null);
   const updateIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const partitionRef = useRef<string | null>(null);
+  const nextInferenceAtRef = useRef<number | null>(null);
+  const [signalCapture, setSignalCapture] = useState<SignalCapture | null>(null);
+  // Bumped when rules must be regenerated for a reason other than a prop or genome change
+  const [rulesVersion, setRulesVersion] = useState(0);
+  const reapplyRules = () => setRulesVersion(version => version + 1);
   
-  const { genome, updateGenome } = useGenomeStore();
+  const { genome, updateGenome, queueDrift, recordInferences, recordOutcome, recordRollbacks, recordElementStats, osPreferences, setOSPreferences } = useGenomeStore();
+
+  // Generate and apply rules for the device partition currently in use.
+  // Only called from the effect below, so every apply is tracked exactly once.
+  const applyRules = (target: UXGenome) => {
+    const capture = captureRef.current;
+    const rules = generateAdaptationRules(target, {
+      partition: capture ? getPartitionKey(capture.getDeviceContext()) : undefined,
+      os: useGenomeStore.getState().osPreferences,
+      policy,
+      scales,
+      // A rolled-back change is never served, not even as an experiment's variant
+      overrides: { ...experimentsRef.current?.getOverrides(), ...outcomesRef.current?.getOverrides() },
+    });
+    applyAdaptationRules(rules);
+    rulesRef.current = rules;
+    applyElementRules();
+    outcomesRef.current?.applied(rules, target);
+  };
+
+  // Scope adaptations to the data-genome-id elements users struggle with
+  const applyElementRules = () => {
+    if (!rulesRef.current) return;
+    applyElementAdaptations(getElementAdaptations(useGenomeStore.getState().elementStats, rulesRef.current));
+  };
 
   // Handle hydration
   useEffect(() => {
     setIsMounted(true);
   }, []);
 
+  // Signal capture and the detectors fed by it live as long as the provider
   useEffect(() => {
     // Only run on client after mount
     if (typeof window === 'undefined' || !isMounted) return;
     
-    // Initialize signal capture
-    if (!captureRef.current) {
-      captureRef.current = new SignalCapture();
-      inferenceRef.current = new TraitInferenceEngine();
-    }
+    // Buffering and inference run in a worker when available
+    const capture = new SignalCapture(createSignalPipeline());
+    captureRef.current = capture;
+    driftRef.current = new DriftDetector();
+    if (experiments) experimentsRef.current = new AdaptationExperiments();
+    if (trackOutcomes) outcomesRef.current = new OutcomeTracker({ rollbacks: useGenomeStore.getState().rollbacks });
+    elementsRef.current = new ElementAggregates(useGenomeStore.getState().elementStats);
+    setSignalCapture(capture);
+    
+    return () => {
+      // Stops the worker and removes the document listeners; inference still in flight is ignored
+      capture.destroy();
+      captureRef.current = null;
+      driftRef.current = null;
+      experimentsRef.current = null;
+      outcomesRef.current = null;
+      elementsRef.current = null;
+      setSignalCapture(null);
+    };
+  }, [isMounted]);
 
+  useEffect(() => {
     const capture = captureRef.current;
-    const inference = inferenceRef.current;
+    const drift = driftRef.current;
+    const experimenter = experimentsRef.current;
+    const outcomes = outcomesRef.current;
+    const elements = elementsRef.current;
 
     // Guard against null references
-    if (!capture || !inference) return;
+    if (!capture || !drift) return;
 
     // Subscribe to signals and infer traits periodically
-    const unsubscribe = capture.subscribe(() => {
+    const unsubscribe = capture.subscribe((signal) => {
+      experimenter?.observe(signal);
+      outcomes?.observe(signal);
+      elements?.observe(signal);
+      
+      // Switched device or pointer type: adapt to that partition right away
+      const partition = signal.device ? getPartitionKey(signal.device) : null;
+      if (partition && partition !== partitionRef.current) {
+        partitionRef.current = partition;
+        reapplyRules();
+      }
+      
       // Debounced inference (runs every 5 seconds)
       if (updateIntervalRef.current) return;
       
+      nextInferenceAtRef.current = Date.now() + INFERENCE_DELAY;
       updateIntervalRef.current = setTimeout(() => {
-        if (genome.learningEnabled && inference) {
-          const recentSignals = capture.getRecentSignals(30000); // Last 30 seconds
-          
-          if (recentSignals.length > 0) {
-            const updates = inference.inferTraits(genome, recentSignals);
-            if (Object.keys(updates).length > 0) {
-              updateGenome(updates);
-            }
-          }
+        updateIntervalRef.current = null;
+        nextInferenceAtRef.current = null;
+        if (!useGenomeStore.getState().genome.learningEnabled) return;
+        
+        if (elements) {
+          recordElementStats(elements.snapshot());
+          applyElementRules();
         }
         
-        updateIntervalRef.current = null;
-      }, 5000);
+        // Last 30 seconds of signals
+        capture.getPipeline().infer(useGenomeStore.getState().genome, 30000).then((result) => {
+          // The provider unmounted while the pipeline was inferring
+          if (captureRef.current !== capture) return;
+          
+          // The genome may have changed (sync, user actions) while the pipeline was inferring
+          recordInferences(result.inferences);
+          // Drift, experiment feedback and outcome judgement, shared with replaySession
+          const pass = completePass(useGenomeStore.getState().genome, result, { drift, experiments: experimenter, outcomes });
+          
+          if (confirmDrift && pass.driftEvents.length > 0) {
+            queueDrift(pass.driftEvents.filter(e => traitRegistry.get(e.trait)?.display !== false));
+          }
+          if (pass.outcome) {
+            recordOutcome(pass.outcome);
+          }
+          if (outcomes) {
+            // Includes rollbacks released or expired since the last pass
+            recordRollbacks(outcomes.getRollbacks());
+          }
+          
+          if (Object.keys(pass.updates).length > 0) {
+            updateGenome(pass.updates);
+          } else if (pass.reapply) {
+            reapplyRules();
+          }
+        }).catch((error) => {
+          // Disposing the pipeline rejects inference in flight
+          if (captureRef.current !== capture) return;
+          console.warn('Trait inference failed:', error);
+        });
+      }, INFERENCE_DELAY);
     });
 
-    // Apply adaptation rules whenever genome changes
-    const rules = generateAdaptationRules(genome);
-    applyAdaptationRules(rules);
-
     return () => {
       unsubscribe();
       if (updateIntervalRef.current) {
         clearTimeout(updateIntervalRef.current);
+        updateIntervalRef.current = null;
+        nextInferenceAtRef.current = null;
       }
     };
-  }, [genome, updateGenome, isMounted]);
+  }, [genome, updateGenome, queueDrift, recordInferences, recordOutcome, recordRollbacks, recordElementStats, confirmDrift, debug, signalCapture]);
 
-  // Re-apply rules when genome updates
+  // Re-apply rules when genome, OS accessibility settings, policy, scales,
+  // device partition, temporal context, experiment arm or rollbacks change
   useEffect(() => {
-    const rules = generateAdaptationRules(genome);
-    applyAdaptationRules(rules);
-  }, [genome]);
+    applyRules(genome);
+  }, [genome, osPreferences, policy, scales, signalCapture, rulesVersion]);
+
+  // Resetting the genome clears element statistics and rollbacks too
+  useEffect(() => useGenomeStore.subscribe((state, previous) => {
+    if (state.elementStats !== previous.elementStats && Object.keys(state.elementStats).length === 0) {
+      elementsRef.current?.reset();
+      applyElementRules();
+    }
+    if (state.outcomeHistory !== previous.outcomeHistory && state.outcomeHistory.length === 0) {
+      outcomesRef.current?.reset();
+    }
+  }), []);
+
+  // Follow OS accessibility settings (reduced motion, contrast, ...) as they change
+  useEffect(() => {
+    if (!isMounted) return;
+    
+    setOSPreferences(detectOSPreferences());
+    return watchOSPreferences(setOSPreferences);
+  }, [setOSPreferences, isMounted]);
+
+  // Sync with other tabs and devices: publish local changes, merge remote ones per trait
+  useEffect(() => {
+    if (!isMounted) return;
+    
+    const tabTransport = syncTabs ? createTabTransport(GENOME_STORAGE_KEY) : null;
+    const transports = [...(tabTransport ? [tabTransport] : []), ...(syncTransports ?? [])];
+    if (transports.length === 0) return;
+    
+    let applyingRemote = false;
+    const sync = new GenomeSync({
+      transports,
+      getGenome: () => useGenomeStore.getState().genome,
+      setGenome: (merged) => {
+        applyingRemote = true;
+        useGenomeStore.setState({ genome: merged });
+        applyingRemote = false;
+      },
+    });
+    
+    sync.start();
+    sync.publish();
+    
+    // Throttled: inference passes land every few seconds, and each would be a request for backend transports
+    let lastPublishAt = Date.now();
+    let publishTimer: ReturnType<typeof setTimeout> | null = null;
+    const publishLatest = () => {
+      publishTimer = null;
+      lastPublishAt = Date.now();
+      sync.publish(useGenomeStore.getState().genome);
+    };
+    
+    const unsubscribe = useGenomeStore.subscribe((state, previous) => {
+      if (state.genome === previous.genome || applyingRemote) return;
+      if (!hasSyncableChanges(previous.genome, state.genome) || publishTimer) return;
+      
+      const wait = lastPublishAt + SYNC_PUBLISH_INTERVAL - Date.now();
+      if (wait <= 0) {
+        publishLatest();
+      } else {
+        publishTimer = setTimeout(publishLatest, wait);
+      }
+    });
+    
+    return () => {
+      unsubscribe();
+      if (publishTimer) {
+        // Don't lose the last change when the provider goes away
+        clearTimeout(publishTimer);
+        publishLatest();
+      }
+      sync.stop();
+      tabTransport?.close?.();
+    };
+  }, [syncTabs, syncTransports, isMounted]);
+
+  // Re-apply rules when the temporal context changes (e.g. afternoon → evening)
+  useEffect(() => {
+    if (!isMounted) return;
+    
+    let contextKey = getContextKey(Date.now());
+    const timer = setInterval(() => {
+      const nextKey = getContextKey(Date.now());
+      if (nextKey === contextKey) return;
+      
+      contextKey = nextKey;
+      reapplyRules();
+    }, 60000);
+    
+    return () => clearInterval(timer);
+  }, [isMounted]);
 
-  return <>{children}</>;
+  return (
+    <SignalCaptureContext.Provider value={signalCapture}>
+      {children}
+      {DebugOverlay && debug && signalCapture && (
+        <DebugOverlay capture={signalCapture} getNextInferenceAt={() => nextInferenceAtRef.current} />
+      )}
+    </SignalCaptureContext.Provider>
+  );
 }
 
@@ -10,16 +10,30 @@ import { useGenomeStore } from '@/store/genomeStore';
 import { AdaptiveCard } from './AdaptiveCard';
 import { AdaptiveButton } from './AdaptiveButton';
 import { useState } from 'react';
+import { traitRegistry, readTrait, currentConfidence } from '@/lib/traits';
+import { CONTEXT_LABELS, TIME_OF_DAY_CONTEXTS, DAY_TYPE_CONTEXTS } from '@/lib/context/temporal';
+import { getPartitionLabel } from '@/lib/context/device';
+import { getOSConstraints, clampTraitValue } from '@/lib/context/accessibility';
+import { summarizeOutcomes } from '@/lib/adaptation/outcomes';
+import { BackupStorageAdapter, FileBackupStorage, encryptBackup, decryptBackup } from '@/lib/backup/backup';
 
-export function GenomeVisualization() {
-  const { genome, resetGenome, pauseLearning, resumeLearning, exportGenome, importGenome, lockTrait, unlockTrait } = useGenomeStore();
+const CONTEXT_KEYS = [...TIME_OF_DAY_CONTEXTS, ...DAY_TYPE_CONTEXTS];
+const fileBackupStorage = new FileBackupStorage();
+
+interface GenomeVisualizationProps {
+  backupStorage?: BackupStorageAdapter; // where encrypted backups go (downloaded files by default)
+}
+
+export function GenomeVisualization({ backupStorage = fileBackupStorage }: GenomeVisualizationProps) {
+  const { genome, resetGenome, pauseLearning, resumeLearning, exportProfile, exportGenome, importGenome, lockTrait, unlockTrait, pendingDrift, confirmDrift, rejectDrift, inferenceHistory, outcomeHistory, osPreferences } = useGenomeStore();
   const [isExpanded, setIsExpanded] = useState(false);
   const [exportSuccess, setExportSuccess] = useState(false);
+  const [explainedTrait, setExplainedTrait] = useState<string | null>(null);
 
   const handleExport = () => {
     if (typeof window === 'undefined' || !navigator.clipboard) return;
     
-    const json = exportGenome();
+    const json = exportProfile();
     navigator.clipboard.writeText(json);
     setExportSuccess(true);
     setTimeout(() => setExportSuccess(false), 2000);
@@ -30,17 +44,18 @@ export function GenomeVisualization() {
     
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = 'application/json';
+    input.accept = 'application/json,.json';
     input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
         const reader = new FileReader();
         reader.onload = (event) => {
           const json = event.target?.result as string;
-          if (importGenome(json)) {
+          const result = importGenome(json);
+          if (result.success) {
             alert('Genome imported successfully!');
           } else {
-            alert('Failed to import genome. Invalid format.');
+            alert(`Failed to import genome:\n${result.errors.join('\n')}`);
           }
         };
         reader.readAsText(file);
@@ -49,33 +64,39 @@ export function GenomeVisualization() {
     input.click();
   };
 
-  const getTraitLabel = (trait: string, value: any) => {
-    const labels: Record<string, Record<string, string>> = {
-      motionSensitivity: {
-        low: 'Comfortable with motion',
-        medium: 'Moderate motion preference',
-        high: 'Prefers minimal motion',
-      },
-      preferredInteractionSpeed: {
-        fast: 'Fast-paced interactions',
-        balanced: 'Balanced pace',
-        slow: 'Deliberate interactions',
-      },
-      layoutDensityTolerance: {
-        compact: 'Comfortable with compact layouts',
-        standard: 'Standard spacing preference',
-        spacious: 'Prefers spacious layouts',
-      },
-      guidanceNeed: {
-        minimal: 'Prefers minimal guidance',
-        contextual: 'Contextual help preferred',
-        strong: 'Prefers detailed guidance',
-      },
-    };
+  const handleBackup = async () => {
+    const passphrase = window.prompt('Choose a passphrase for this backup. It cannot be recovered if lost.');
+    if (!passphrase) return;
     
-    return labels[trait]?.[value] || value;
+    try {
+      await backupStorage.save(await encryptBackup(exportGenome(), passphrase));
+    } catch (error) {
+      alert(`Backup failed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleRestore = async () => {
+    try {
+      const backup = await backupStorage.load();
+      if (!backup) return;
+      
+      const passphrase = window.prompt('Enter the backup passphrase');
+      if (!passphrase) return;
+      
+      const result = importGenome(await decryptBackup(backup, passphrase));
+      if (result.success) {
+        alert('Genome restored successfully!');
+      } else {
+        alert(`Failed to restore genome:\n${result.errors.join('\n')}`);
+      }
+    } catch (error) {
+      alert(`Failed to restore genome: ${(error as Error).message}`);
+    }
   };
 
+  const osConstraints = getOSConstraints(osPreferences);
+  const outcomeReport = summarizeOutcomes(outcomeHistory);
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence > 0.7) return 'text-green-600';
     if (confidence > 0.4) return 'text-yellow-600';
@@ -102,79 +123,131 @@ export function GenomeVisualization() {
             This is how the interface adapts to you. It learns from your interactions.
           </p>
 
-          {isExpanded && (
-            <div className="space-y-4 pt-4 border-t border-gray-200">
-              {/* Motion Sensitivity */}
-              <div>
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-sm font-medium text-gray-700">
-                    Motion Preference
-                  </span>
-                  <span className={`text-xs ${getConfidenceColor(genome.motionSensitivityMeta.confidence)}`}>
-                    {Math.round(genome.motionSensitivityMeta.confidence * 100)}% confident
-                  </span>
-                </div>
-                <div className="text-sm text-gray-600">
-                  {getTraitLabel('motionSensitivity', genome.motionSensitivity)}
-                </div>
-                <div className="mt-2 h-2 bg-gray-200 rounded-full overflow-hidden">
-                  <div
-                    className={`h-full transition-all duration-genome-balanced ${
-                      genome.motionSensitivity === 'high' ? 'bg-red-400' :
-                      genome.motionSensitivity === 'medium' ? 'bg-yellow-400' :
-                      'bg-green-400'
-                    }`}
-                    style={{
-                      width: `${genome.motionSensitivityMeta.confidence * 100}%`,
-                    }}
-                  />
-                </div>
-              </div>
-
-              {/* Interaction Speed */}
-              <div>
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-sm font-medium text-gray-700">
-                    Interaction Pace
-                  </span>
-                  <span className={`text-xs ${getConfidenceColor(genome.preferredInteractionSpeedMeta.confidence)}`}>
-                    {Math.round(genome.preferredInteractionSpeedMeta.confidence * 100)}% confident
-                  </span>
-                </div>
-                <div className="text-sm text-gray-600">
-                  {getTraitLabel('preferredInteractionSpeed', genome.preferredInteractionSpeed)}
+          {/* Detected behavior changes awaiting confirmation */}
+          {pendingDrift.map((event) => {
+            const definition = traitRegistry.get(event.trait);
+            if (!definition) return null;
+            const describe = (value: string | number) =>
+              definition.describe ? definition.describe(value) : String(value);
+            
+            return (
+              <div key={event.trait} className="p-3 rounded-lg bg-yellow-50 border border-yellow-200">
+                <p className="text-sm text-gray-700 mb-2">
+                  Your {definition.label.toLowerCase()} seems to have changed from
+                  &ldquo;{describe(event.before.value)}&rdquo; to &ldquo;{describe(event.after.value)}&rdquo;.
+                </p>
+                <div className="flex gap-2">
+                  <AdaptiveButton size="small" variant="secondary" onClick={() => confirmDrift(event.trait)}>
+                    Keep new
+                  </AdaptiveButton>
+                  <AdaptiveButton size="small" variant="ghost" onClick={() => rejectDrift(event.trait)}>
+                    Revert
+                  </AdaptiveButton>
                 </div>
               </div>
+            );
+          })}
 
-              {/* Layout Density */}
-              <div>
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-sm font-medium text-gray-700">
-                    Layout Spacing
-                  </span>
-                  <span className={`text-xs ${getConfidenceColor(genome.layoutDensityToleranceMeta.confidence)}`}>
-                    {Math.round(genome.layoutDensityToleranceMeta.confidence * 100)}% confident
-                  </span>
-                </div>
-                <div className="text-sm text-gray-600">
-                  {getTraitLabel('layoutDensityTolerance', genome.layoutDensityTolerance)}
-                </div>
-              </div>
+          {isExpanded && (
+            <div className="space-y-4 pt-4 border-t border-gray-200">
+              {/* Registered traits */}
+              {traitRegistry.list().filter(definition => definition.display !== false).map((definition) => {
+                const state = readTrait(genome, definition);
+                const { value: learnedValue, meta } = state;
+                const confidence = currentConfidence(definition, state, Date.now());
+                const history = inferenceHistory[definition.key] ?? [];
+                const latest = history[history.length - 1];
+                
+                // OS accessibility settings bound what the interface adapts to
+                const constraint = osConstraints.find(c => c.trait === definition.key);
+                const value = constraint ? clampTraitValue(definition, learnedValue, constraint) : learnedValue;
+                
+                return (
+                  <div key={definition.key}>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium text-gray-700">
+                        {definition.label}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <span className={`text-xs ${getConfidenceColor(confidence)}`}>
+                          {Math.round(confidence * 100)}% confident
+                        </span>
+                        {latest && (
+                          <button
+                            onClick={() => setExplainedTrait(explainedTrait === definition.key ? null : definition.key)}
+                            className="text-xs text-gray-500 hover:text-gray-700"
+                          >
+                            Why?
+                          </button>
+                        )}
+                        <button
+                          onClick={() => meta.state === 'locked' ? unlockTrait(definition.key) : lockTrait(definition.key)}
+                          className="text-xs text-gray-500 hover:text-gray-700"
+                        >
+                          {meta.state === 'locked' ? 'Unlock' : 'Lock'}
+                        </button>
+                      </div>
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {definition.describe ? definition.describe(value) : String(value)}
+                    </div>
+                    {constraint && (
+                      <div className="text-xs text-blue-700 mt-1">
+                        {constraint.reason}
+                        {value !== learnedValue && (
+                          <> (learned: {definition.describe ? definition.describe(learnedValue) : String(learnedValue)})</>
+                        )}
+                      </div>
+                    )}
+                    {/* Reasoning behind the most recent inference */}
+                    {latest && explainedTrait === definition.key && (
+                      <ul className="mt-2 space-y-1 text-xs text-gray-500 list-disc list-inside">
+                        {latest.reasoning.map((sentence, i) => (
+                          <li key={i}>{sentence}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {/* Contexts where this trait differs from the overall profile */}
+                    {CONTEXT_KEYS.map((contextKey) => {
+                      const contextState = genome.contextProfiles?.[contextKey]?.traits[definition.key];
+                      if (!contextState || contextState.value === value) return null;
+                      
+                      return (
+                        <div key={contextKey} className="text-xs text-gray-500 mt-1">
+                          {CONTEXT_LABELS[contextKey]}:{' '}
+                          {definition.describe ? definition.describe(contextState.value) : String(contextState.value)}
+                          <span className={`ml-1 ${getConfidenceColor(contextState.meta.confidence)}`}>
+                            ({Math.round(contextState.meta.confidence * 100)}%)
+                          </span>
+                        </div>
+                      );
+                    })}
+                    <div className="mt-2 h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-genome-accent transition-all duration-genome-balanced"
+                        style={{
+                          width: `${confidence * 100}%`,
+                        }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
 
-              {/* Guidance Need */}
-              <div>
-                <div className="flex items-center justify-between mb-2">
+              {/* Device partitions */}
+              {Object.keys(genome.devicePartitions ?? {}).length > 0 && (
+                <div className="pt-4 border-t border-gray-200">
                   <span className="text-sm font-medium text-gray-700">
-                    Guidance Preference
+                    Devices
                   </span>
-                  <span className={`text-xs ${getConfidenceColor(genome.guidanceNeedMeta.confidence)}`}>
-                    {Math.round(genome.guidanceNeedMeta.confidence * 100)}% confident
-                  </span>
-                </div>
-                <div className="text-sm text-gray-600">
-                  {getTraitLabel('guidanceNeed', genome.guidanceNeed)}
+                  {Object.entries(genome.devicePartitions ?? {}).map(([key, partition]) => (
+                    <div key={key} className="flex items-center justify-between text-xs text-gray-600 mt-1">
+                      <span>{getPartitionLabel(partition)}</span>
+                      <span>{Math.round(partition.clickPrecision * 100)}% click precision</span>
+                    </div>
+                  ))}
                 </div>
-              </div>
+              )}
 
               {/* Learning Status */}
               <div className="pt-4 border-t border-gray-200">
@@ -186,6 +259,13 @@ export function GenomeVisualization() {
                     {genome.learningEnabled ? 'Active' : 'Paused'}
                   </span>
                 </div>
+                {/* Whether adapting has helped so far */}
+                {outcomeReport.judged > 0 && (
+                  <p className="text-xs text-gray-500 mb-3">
+                    Adaptations helped {outcomeReport.improved} of {outcomeReport.judged} times
+                    {outcomeReport.rolledBack > 0 && <>; {outcomeReport.rolledBack} that made things harder were undone</>}.
+                  </p>
+                )}
                 <div className="flex gap-2">
                   <AdaptiveButton
                     size="small"
@@ -222,6 +302,22 @@ export function GenomeVisualization() {
                     Import
                   </AdaptiveButton>
                 </div>
+                <div className="flex gap-2 mt-2">
+                  <AdaptiveButton
+                    size="small"
+                    variant="ghost"
+                    onClick={handleBackup}
+                  >
+                    Encrypted backup
+                  </AdaptiveButton>
+                  <AdaptiveButton
+                    size="small"
+                    variant="ghost"
+                    onClick={handleRestore}
+                  >
+                    Restore
+                  </AdaptiveButton>
+                </div>
               </div>
             </div>
           )}
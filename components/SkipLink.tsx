@@ -0,0 +1,36 @@
+/**
+ * Skip Link Component
+ *
+ * Lets keyboard users jump past repeated navigation. Hidden until focused,
+ * and always shown once the genome has learned the user navigates by keyboard.
+ */
+
+'use client';
+
+import { ReactNode } from 'react';
+import clsx from 'clsx';
+
+interface SkipLinkProps {
+  href?: string; // target of the skip, e.g. the page's <main id="main">
+  children?: ReactNode;
+  className?: string;
+}
+
+export function SkipLink({ href = '#main', children = 'Skip to main content', className }: SkipLinkProps) {
+  return (
+    <a
+      href={href}
+      className={clsx(
+        'rounded-lg bg-white font-medium text-genome-primary shadow-md',
+        'px-genome-standard py-genome-compact',
+        // Off-screen until focused
+        'sr-only focus:not-sr-only focus:absolute focus:left-4 focus:top-4 focus:z-50',
+        // Kept in the page for keyboard-first users
+        'genome-skip-links:not-sr-only genome-skip-links:inline-block genome-skip-links:m-genome-compact genome-skip-links:focus:static',
+        className
+      )}
+    >
+      {children}
+    </a>
+  );
+}
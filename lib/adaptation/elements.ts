@@ -0,0 +1,91 @@
+/**
+ * Element-Level Adaptations
+ *
+ * Adapts single components instead of the whole page. Elements that opted
+ * in with `data-genome-id` and turned out hard to hit get a larger target
+ * scale; elements users hesitate over show their tooltips sooner. The
+ * values are scoped CSS variables in one generated stylesheet, so they
+ * survive re-renders and only reach the marked elements.
+ */
+
+import { ElementStats, describeElement } from '@/lib/stats/elements';
+import { AdaptationRules } from './rules';
+
+export interface ElementAdaptationOptions {
+  minSamples?: number; // interactions before an element is adapted
+  missRate?: number; // miss rate from which an element counts as hard to hit
+  hesitation?: number; // ms of mean hesitation from which tooltips come sooner
+  maxTargetScale?: number;
+}
+
+const STYLE_ELEMENT_ID = 'genome-element-adaptations';
+
+/**
+ * Scoped variables per element id:
+ *
+ *   --genome-target-scale   multiplier on the genome button heights, e.g. "1.3"
+ *   --genome-tooltip-delay  halved page delay for hesitated-over elements
+ */
+export function getElementAdaptations(
+  stats: Record<string, ElementStats>,
+  rules: AdaptationRules,
+  options: ElementAdaptationOptions = {}
+): Record<string, Record<string, string>> {
+  const minSamples = options.minSamples ?? 5;
+  const missRate = options.missRate ?? 0.2;
+  const hesitation = options.hesitation ?? 1500;
+  const maxTargetScale = options.maxTargetScale ?? 1.5;
+
+  const adaptations: Record<string, Record<string, string>> = {};
+  Object.values(stats).forEach((element) => {
+    const entry = describeElement(element);
+    const variables: Record<string, string> = {};
+
+    // Grow the target with how often it is missed
+    if (element.hits >= minSamples && entry.missRate >= missRate) {
+      variables['--genome-target-scale'] = String(Number(Math.min(maxTargetScale, 1 + entry.missRate).toFixed(2)));
+    }
+    if (element.hovers + element.clickTimeCount >= minSamples && entry.meanHesitation >= hesitation) {
+      variables['--genome-tooltip-delay'] = `${Math.round(rules.tooltipDelay / 2)}ms`;
+    }
+
+    if (Object.keys(variables).length > 0) adaptations[element.id] = variables;
+  });
+  return adaptations;
+}
+
+/**
+ * The adaptations as a stylesheet of `[data-genome-id="..."]` rules
+ */
+export function getElementAdaptationCSS(adaptations: Record<string, Record<string, string>>): string {
+  return Object.entries(adaptations)
+    .map(([id, variables]) => {
+      const declarations = Object.entries(variables).map(([name, value]) => `${name}: ${value};`).join(' ');
+      return `[data-genome-id="${id.replace(/["\\]/g, '\\$&')}"] { ${declarations} }`;
+    })
+    .join('\n');
+}
+
+/**
+ * Write the adaptations into the document's element stylesheet. Returns
+ * whether it changed.
+ */
+export function applyElementAdaptations(
+  adaptations: Record<string, Record<string, string>>,
+  doc: Document | undefined = typeof document !== 'undefined' ? document : undefined
+): boolean {
+  if (!doc) return false;
+
+  const css = getElementAdaptationCSS(adaptations);
+  let style = doc.getElementById(STYLE_ELEMENT_ID);
+  if (!style) {
+    if (!css) return false;
+    style = doc.createElement('style');
+    style.id = STYLE_ELEMENT_ID;
+    doc.head.appendChild(style);
+  }
+
+  if (style.textContent === css) return false;
+  style.textContent = css;
+  return true;
+}
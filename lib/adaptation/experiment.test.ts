@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UXGenome, ClickSignal } from '@/types/genome';
+import { DEFAULT_GENOME } from '@/store/genomeStore';
+import { motionSensitivityTrait, readPosterior, scoreForValue } from '@/lib/traits';
+import { AdaptationExperiments, ExperimentResult } from './experiment';
+
+const NOW = 1_700_000_000_000;
+const EPOCH_MS = 2 * 60 * 1000;
+
+const genome: UXGenome = {
+  ...DEFAULT_GENOME,
+  motionSensitivityMeta: { ...DEFAULT_GENOME.motionSensitivityMeta, lastUpdated: NOW },
+  guidanceNeedMeta: { ...DEFAULT_GENOME.guidanceNeedMeta, lastUpdated: NOW },
+};
+
+// Mulberry32, so every run serves the same arms
+function seeded(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function click(timestamp: number, missed: boolean): ClickSignal {
+  return {
+    type: 'click',
+    timestamp,
+    data: { targetSize: 1600, correctionCount: 0, timeToClick: 400, missDistance: missed ? 20 : undefined },
+  };
+}
+
+/**
+ * Serve epochs until the experiment concludes, missing each click with
+ * `missRate(servingVariant)`
+ */
+function runExperiment(missRate: (variant: boolean) => number, seed = 1): { result: ExperimentResult | undefined; updates: Partial<UXGenome>; served: boolean[] } {
+  let now = NOW;
+  const experiments = new AdaptationExperiments({ clock: () => now, random: seeded(seed), traits: ['motionSensitivity'] });
+  const served: boolean[] = [];
+
+  experiments.step(genome);
+  for (let epoch = 0; epoch < 20; epoch++) {
+    const variant = Object.keys(experiments.getOverrides()).length > 0;
+    served.push(variant);
+    for (let i = 0; i < 12; i++) {
+      experiments.observe(click(now + i * 1000, i < 12 * missRate(variant)));
+    }
+
+    now += EPOCH_MS;
+    const step = experiments.step(genome);
+    if (step.result) return { result: step.result, updates: step.updates, served };
+  }
+  return { result: undefined, updates: {}, served };
+}
+
+test('exploration stays within the epoch and variant budget', () => {
+  const { result, served } = runExperiment(() => 0.25, 7);
+
+  assert.ok(result);
+  const [control, variant] = result.arms;
+  assert.equal(control.epochs + variant.epochs, 8);
+  assert.equal(served.length, 8);
+  assert.ok(variant.epochs >= 2 && control.epochs >= 2);
+  assert.ok(variant.epochs / served.length <= 0.5);
+});
+
+test('held traits are not tested', () => {
+  let now = NOW;
+  const experiments = new AdaptationExperiments({ clock: () => now, random: seeded(1), traits: ['motionSensitivity', 'guidanceNeed'] });
+
+  experiments.step(genome, ['motionSensitivity', 'guidanceNeed']);
+  assert.equal(experiments.getActive(), null);
+
+  experiments.step(genome, ['motionSensitivity']);
+  assert.equal(experiments.getActive()?.trait, 'guidanceNeed');
+
+  // Rolled back while being tested
+  now += EPOCH_MS;
+  experiments.step(genome, ['guidanceNeed']);
+  assert.equal(experiments.getActive(), null);
+});
+
+test('a decisive verdict is folded into the posterior', () => {
+  const { result, updates } = runExperiment(variant => (variant ? 0 : 0.75));
+
+  assert.ok(result);
+  assert.equal(result.winner, result.arms[1].value);
+  assert.ok(result.probability >= 0.95);
+
+  // The posterior mean moved toward the winning value
+  const before = readPosterior(motionSensitivityTrait, { value: genome.motionSensitivity, meta: genome.motionSensitivityMeta }, NOW);
+  const after = updates.motionSensitivityMeta?.posterior;
+  assert.ok(before.kind === 'gaussian' && after?.kind === 'gaussian');
+  const winnerScore = scoreForValue(motionSensitivityTrait, result.winner)!;
+  assert.ok(Math.abs(after.mean - winnerScore) < Math.abs(before.mean - winnerScore));
+  assert.equal(updates.motionSensitivityMeta?.lastUpdated, result.concludedAt);
+});
@@ -0,0 +1,399 @@
+/**
+ * Micro-Variant Experiments
+ *
+ * Single-user A/B testing for traits the genome is unsure about. While a
+ * trait has low confidence, the interface alternates between its learned
+ * value (control) and one neighbouring value (the variant), e.g. two
+ * tooltip delays or two spacing levels. Each arm is served for a whole
+ * epoch and scored from the signals seen meanwhile (misses, corrections,
+ * hover dwell); a two-armed bandit decides which arm to serve next.
+ *
+ * Exploration is bounded so the UI never visibly thrashes: one trait at a
+ * time, one step away from the learned value, a minimum time per arm, a
+ * cap on epochs and on the share spent on the variant, and a cooldown
+ * between experiments. The verdict is folded into the trait's posterior
+ * as evidence, so it raises or lowers the trait's confidence.
+ */
+
+import { UXGenome, SignalCollection, TraitPosterior } from '@/types/genome';
+import {
+  TraitDefinition,
+  TraitRegistry,
+  TraitValue,
+  traitRegistry,
+  readTrait,
+  writeTrait,
+  readPosterior,
+  updatePosterior,
+  posteriorValue,
+  posteriorConfidence,
+  currentConfidence,
+  learningStateFor,
+  scoreForValue,
+  normalCdf,
+} from '@/lib/traits';
+import { SignalSummarizer, SignalSummary } from '@/lib/stats/summary';
+import { Clock } from '@/lib/inference/engine';
+
+/**
+ * Traits whose values change the adaptation rules, and so can be tested
+ */
+export const EXPERIMENT_TRAITS = [
+  'motionSensitivity',
+  'preferredInteractionSpeed',
+  'layoutDensityTolerance',
+  'guidanceNeed',
+];
+
+export interface OutcomeMetrics {
+  missRate: number | null; // share of clicks and aimed taps outside their target
+  corrections: number | null; // mean cursor corrections before a click
+  hoverDwell: number | null; // mean hover dwell (ms), long dwell reads as hesitation
+  samples: number; // hits and hovers the metrics are based on
+}
+
+export interface ExperimentArm {
+  value: TraitValue;
+  epochs: number;
+  successes: number; // reward-weighted trials
+  failures: number; // trials weighted by 1 - reward
+}
+
+export interface Experiment {
+  trait: string;
+  arms: [ExperimentArm, ExperimentArm]; // control, variant
+  serving: 0 | 1;
+  startedAt: number;
+  epochStartedAt: number;
+}
+
+export interface ExperimentResult {
+  trait: string;
+  winner: TraitValue;
+  loser: TraitValue;
+  probability: number; // posterior probability that the winner is the better arm
+  arms: [ExperimentArm, ExperimentArm];
+  concludedAt: number;
+}
+
+export interface ExperimentStep {
+  updates: Partial<UXGenome>; // confidence feedback from a concluded experiment
+  switched: boolean; // the served arm changed, so rules need re-applying
+  result?: ExperimentResult;
+}
+
+export interface AdaptationExperimentsOptions {
+  registry?: TraitRegistry;
+  clock?: Clock;
+  random?: () => number; // injectable so replays are deterministic
+  traits?: string[]; // traits that may be tested (defaults to EXPERIMENT_TRAITS)
+  maxConfidence?: number; // only traits below this confidence are tested
+  epochMs?: number; // minimum time an arm is served before it may change
+  minEpochSamples?: number; // hits and hovers needed to score an epoch
+  maxEpochs?: number; // epochs before an experiment concludes regardless
+  maxVariantShare?: number; // cap on the share of epochs spent on the variant
+  decisiveProbability?: number; // concludes early once one arm is this likely better
+  cooldownMs?: number; // pause between experiments
+  feedbackWeight?: number; // evidence a decisive verdict carries, in full-confidence windows
+}
+
+const PRIOR_SUCCESSES = 1;
+const PRIOR_FAILURES = 1;
+const MIN_EPOCHS_PER_ARM = 2;
+const MAX_EPOCH_TRIALS = 20; // samples in one epoch are correlated, so each counts for at most this many trials
+const HESITANT_DWELL = 2000; // ms of hover dwell that scores as fully hesitant
+const MAX_CORRECTIONS = 3; // corrections per click that score as worst
+
+/**
+ * Outcome metrics of one epoch, lower is better for each
+ */
+export function measureOutcome(summary: SignalSummary): OutcomeMetrics {
+  const hits = summary.metric('hit.missed');
+  const corrections = summary.metric('click.correctionCount');
+  const dwell = summary.metric('hover.dwellTime');
+
+  return {
+    missRate: hits.count > 0 ? hits.mean : null,
+    corrections: corrections.count > 0 ? corrections.mean : null,
+    hoverDwell: dwell.count > 0 ? dwell.mean : null,
+    samples: hits.count + dwell.count,
+  };
+}
+
+/**
+ * Reward (0-1, higher is better) of an epoch's outcome, averaging whichever
+ * metrics it has
+ */
+export function outcomeReward(outcome: OutcomeMetrics): number {
+  const parts: [number, number][] = [];
+  if (outcome.missRate !== null) parts.push([0.5, 1 - outcome.missRate]);
+  if (outcome.corrections !== null) parts.push([0.3, 1 - Math.min(1, outcome.corrections / MAX_CORRECTIONS)]);
+  if (outcome.hoverDwell !== null) parts.push([0.2, 1 - Math.min(1, outcome.hoverDwell / HESITANT_DWELL)]);
+  if (parts.length === 0) return 0.5;
+
+  const weight = parts.reduce((sum, [w]) => sum + w, 0);
+  return parts.reduce((sum, [w, reward]) => sum + w * reward, 0) / weight;
+}
+
+export class AdaptationExperiments {
+  private readonly registry: TraitRegistry;
+  private readonly clock: Clock;
+  private readonly random: () => number;
+  private readonly traits: string[];
+  private readonly maxConfidence: number;
+  private readonly epochMs: number;
+  private readonly minEpochSamples: number;
+  private readonly maxEpochs: number;
+  private readonly maxVariantShare: number;
+  private readonly decisiveProbability: number;
+  private readonly cooldownMs: number;
+  private readonly feedbackWeight: number;
+
+  private active: Experiment | null = null;
+  private epoch = new SignalSummarizer();
+  private lastConcludedAt = -Infinity;
+  private listeners: ((result: ExperimentResult) => void)[] = [];
+
+  constructor(options: AdaptationExperimentsOptions = {}) {
+    this.registry = options.registry ?? traitRegistry;
+    this.clock = options.clock ?? Date.now;
+    this.random = options.random ?? Math.random;
+    this.traits = options.traits ?? EXPERIMENT_TRAITS;
+    this.maxConfidence = options.maxConfidence ?? 0.6;
+    this.epochMs = options.epochMs ?? 2 * 60 * 1000;
+    this.minEpochSamples = options.minEpochSamples ?? 10;
+    this.maxEpochs = options.maxEpochs ?? 8;
+    this.maxVariantShare = options.maxVariantShare ?? 0.5;
+    this.decisiveProbability = options.decisiveProbability ?? 0.95;
+    this.cooldownMs = options.cooldownMs ?? 10 * 60 * 1000;
+    this.feedbackWeight = options.feedbackWeight ?? 1;
+  }
+
+  subscribe(callback: (result: ExperimentResult) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(cb => cb !== callback);
+    };
+  }
+
+  getActive(): Experiment | null {
+    return this.active;
+  }
+
+  /**
+   * Trait values to serve in place of the learned ones (the variant arm,
+   * while it is being served). Pass as `overrides` to generateAdaptationRules.
+   */
+  getOverrides(): Record<string, TraitValue> {
+    if (!this.active || this.active.serving === 0) return {};
+    return { [this.active.trait]: this.active.arms[1].value };
+  }
+
+  /**
+   * Fold a signal into the outcome of the arm being served
+   */
+  observe(signal: SignalCollection) {
+    if (this.active) this.epoch.observe(signal);
+  }
+
+  /**
+   * Advance experiments after an inference pass: score a finished epoch,
+   * pick the next arm, conclude, or start testing another trait. `held`
+   * traits are served at a fixed value elsewhere (e.g. rolled back by
+   * OutcomeTracker) and are not tested.
+   */
+  step(genome: UXGenome, held: string[] = []): ExperimentStep {
+    const now = this.clock();
+    const active = this.active;
+
+    if (!active) {
+      return { updates: {}, switched: this.start(genome, now, held) };
+    }
+    if (held.includes(active.trait)) {
+      return { updates: {}, switched: this.stop(now) };
+    }
+
+    const definition = this.registry.get(active.trait);
+    const state = definition ? readTrait(genome, definition) : null;
+
+    // Learning moved the trait, or the user took over: the test no longer applies
+    if (!definition || !state || !genome.learningEnabled || state.meta.state === 'locked' || state.value !== active.arms[0].value) {
+      return { updates: {}, switched: this.stop(now) };
+    }
+
+    const outcome = measureOutcome(this.epoch);
+    if (now - active.epochStartedAt < this.epochMs || outcome.samples < this.minEpochSamples) {
+      return { updates: {}, switched: false };
+    }
+
+    const arm = active.arms[active.serving];
+    const reward = outcomeReward(outcome);
+    const trials = Math.min(outcome.samples, MAX_EPOCH_TRIALS);
+    arm.epochs += 1;
+    arm.successes += reward * trials;
+    arm.failures += (1 - reward) * trials;
+
+    const probability = variantProbability(active.arms);
+    const epochs = active.arms[0].epochs + active.arms[1].epochs;
+    const explored = active.arms.every(a => a.epochs >= MIN_EPOCHS_PER_ARM);
+    const decisive = Math.max(probability, 1 - probability) >= this.decisiveProbability;
+
+    if (epochs >= this.maxEpochs || (explored && decisive)) {
+      return this.conclude(genome, definition, probability, now);
+    }
+
+    const serving = this.chooseArm(active);
+    const switched = serving !== active.serving;
+    active.serving = serving;
+    active.epochStartedAt = now;
+    this.epoch = new SignalSummarizer();
+    return { updates: {}, switched };
+  }
+
+  /**
+   * Abandon the running experiment without feedback. Returns whether the
+   * variant was being served.
+   */
+  stop(now: number = this.clock()): boolean {
+    const wasServingVariant = this.active?.serving === 1;
+    if (this.active) this.lastConcludedAt = now;
+    this.active = null;
+    this.epoch = new SignalSummarizer();
+    return wasServingVariant;
+  }
+
+  private start(genome: UXGenome, now: number, held: string[]): boolean {
+    if (!genome.learningEnabled || now - this.lastConcludedAt < this.cooldownMs) return false;
+
+    // The least certain testable trait
+    const candidates = this.traits
+      .filter(key => !held.includes(key))
+      .map(key => this.registry.get(key))
+      .filter((definition): definition is TraitDefinition => !!definition && Array.isArray(definition.domain))
+      .map((definition) => {
+        const state = readTrait(genome, definition);
+        return { definition, state, confidence: currentConfidence(definition, state, now) };
+      })
+      .filter(({ state, confidence }) =>
+        state.meta.state !== 'locked' && state.meta.state !== 'paused' && confidence < this.maxConfidence)
+      .sort((a, b) => a.confidence - b.confidence);
+
+    for (const { definition, state } of candidates) {
+      const variant = pickVariant(definition, readPosterior(definition, state, now), state.value);
+      if (variant === undefined) continue;
+
+      this.active = {
+        trait: definition.key,
+        arms: [createArm(state.value), createArm(variant)],
+        serving: 0,
+        startedAt: now,
+        epochStartedAt: now,
+      };
+      this.epoch = new SignalSummarizer();
+      return false; // control is what was served already
+    }
+    return false;
+  }
+
+  /**
+   * Thompson sampling, held to the exploration budget
+   */
+  private chooseArm(active: Experiment): 0 | 1 {
+    const [control, variant] = active.arms;
+    const epochs = control.epochs + variant.epochs;
+
+    if (variant.epochs < MIN_EPOCHS_PER_ARM && active.serving === 0) return 1;
+    if ((variant.epochs + 1) / (epochs + 1) > this.maxVariantShare) return 0;
+
+    return sampleArm(variant, this.random) > sampleArm(control, this.random) ? 1 : 0;
+  }
+
+  /**
+   * Feed the verdict into the trait's posterior as evidence for the winner
+   */
+  private conclude(genome: UXGenome, definition: TraitDefinition, probability: number, now: number): ExperimentStep {
+    const active = this.active!;
+    const [control, variant] = active.arms;
+    const variantWins = probability > 0.5;
+    const result: ExperimentResult = {
+      trait: active.trait,
+      winner: variantWins ? variant.value : control.value,
+      loser: variantWins ? control.value : variant.value,
+      probability: Math.max(probability, 1 - probability),
+      arms: active.arms,
+      concludedAt: now,
+    };
+    const switched = this.stop(now);
+
+    this.listeners.forEach(cb => cb(result));
+
+    // A coin-flip verdict carries no evidence
+    const weight = this.feedbackWeight * (2 * result.probability - 1);
+    if (weight <= 0) return { updates: {}, switched, result };
+
+    const updates: Partial<UXGenome> = {};
+    const current = readTrait(genome, definition);
+    const posterior = updatePosterior(definition, readPosterior(definition, current, now), { value: result.winner }, weight, now);
+    const value = posteriorValue(definition, posterior, current.value);
+    const confidence = posteriorConfidence(definition, posterior, value);
+
+    writeTrait(updates, genome, definition, {
+      value,
+      meta: {
+        ...current.meta,
+        confidence,
+        lastUpdated: now,
+        state: learningStateFor(confidence, current.meta.sampleCount),
+        posterior,
+      },
+    });
+
+    return { updates, switched: switched || value !== current.value, result };
+  }
+}
+
+function createArm(value: TraitValue): ExperimentArm {
+  return { value, epochs: 0, successes: 0, failures: 0 };
+}
+
+/**
+ * The neighbouring value (in domain order) the evidence leans toward
+ */
+function pickVariant(
+  definition: TraitDefinition,
+  posterior: TraitPosterior,
+  value: TraitValue
+): TraitValue | undefined {
+  const domain = definition.domain as readonly TraitValue[];
+  const index = domain.indexOf(value);
+  if (index === -1) return undefined;
+
+  const neighbours = [domain[index - 1], domain[index + 1]].filter(v => v !== undefined);
+  const support = (candidate: TraitValue) => {
+    if (posterior.kind === 'dirichlet') return posterior.counts[String(candidate)] ?? 0;
+    const anchor = scoreForValue(definition, candidate);
+    return anchor === undefined ? -Infinity : -Math.abs(anchor - posterior.mean);
+  };
+  return neighbours.sort((a, b) => support(b) - support(a))[0];
+}
+
+// Beta posterior of an arm's mean reward, approximated as a normal
+function armPosterior(arm: ExperimentArm): { mean: number; variance: number } {
+  const a = arm.successes + PRIOR_SUCCESSES;
+  const b = arm.failures + PRIOR_FAILURES;
+  return { mean: a / (a + b), variance: (a * b) / ((a + b) * (a + b) * (a + b + 1)) };
+}
+
+// Posterior probability that the variant's mean reward beats the control's
+function variantProbability([control, variant]: [ExperimentArm, ExperimentArm]): number {
+  const c = armPosterior(control);
+  const v = armPosterior(variant);
+  return normalCdf((v.mean - c.mean) / Math.sqrt(c.variance + v.variance));
+}
+
+function sampleArm(arm: ExperimentArm, random: () => number): number {
+  const { mean, variance } = armPosterior(arm);
+  // Box-Muller
+  const z = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  return mean + z * Math.sqrt(variance);
+}
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UXGenome, SignalCollection } from '@/types/genome';
+import { TraitInferenceEngine } from '@/lib/inference/engine';
+import { SignalAggregates } from '@/lib/stats/aggregates';
+import { DEFAULT_GENOME, mergeGenomeUpdates } from '@/store/genomeStore';
+import { generateAdaptationRules } from './rules';
+import { OutcomeTracker, AdaptationOutcome } from './outcomes';
+
+const NOW = 1_700_000_000_000;
+
+test('stored rollbacks are served again after a reload', () => {
+  let now = NOW;
+  const rollbacks = {
+    motionSensitivity: { value: 'high', learned: 'low', until: NOW + 60000 },
+    guidanceNeed: { value: 'strong', learned: 'minimal', until: NOW - 1 },
+  };
+  const tracker = new OutcomeTracker({ clock: () => now, rollbacks });
+
+  assert.deepEqual(tracker.getOverrides(), { motionSensitivity: 'high' });
+  assert.deepEqual(tracker.getRollbacks(), { motionSensitivity: rollbacks.motionSensitivity });
+
+  now = NOW + 60000;
+  assert.deepEqual(tracker.getRollbacks(), {});
+});
+
+// Twenty minutes of steady use that turns slow and hesitant after five,
+// one signal every 250ms with jitter so every pass sees slightly different data
+function session(durationMs: number): SignalCollection[] {
+  return Array.from({ length: durationMs / 250 }, (_, i): SignalCollection => {
+    const timestamp = NOW + i * 250;
+    const hesitant = i * 250 > 5 * 60 * 1000;
+    const jitter = Math.sin(i * 12.9898) * 0.5 + 0.5;
+    switch (i % 4) {
+      case 0:
+        return { type: 'click', timestamp, data: { targetSize: 1600, correctionCount: hesitant ? 2 : 0, timeToClick: (hesitant ? 1400 : 350) + jitter * 200, missDistance: jitter > 0.8 ? 12 : 0 } };
+      case 1:
+        return { type: 'hover', timestamp, data: { element: 'button', dwellTime: (hesitant ? 1500 : 300) + jitter * 300, triggered: jitter > 0.5 } };
+      case 2:
+        return { type: 'scroll', timestamp, data: { delta: 120, velocity: (hesitant ? 0.4 : 2) + jitter, direction: jitter > 0.3 ? 'down' : 'up', reversalCount: jitter > 0.9 ? 1 : 0, timeSinceLastScroll: 1000 } };
+      default:
+        return { type: 'cursor', timestamp, data: { velocity: (hesitant ? 0.3 : 1.2) + jitter * 0.2, acceleration: 0.01, jitter: hesitant ? 6 : 2, pathLength: 300 } };
+    }
+  });
+}
+
+test('learned changes are judged while inference keeps refining the genome', () => {
+  let now = NOW;
+  const engine = new TraitInferenceEngine({ clock: () => now });
+  const aggregates = new SignalAggregates();
+  const tracker = new OutcomeTracker({ clock: () => now });
+  const outcomes: AdaptationOutcome[] = [];
+  let genome: UXGenome = { ...DEFAULT_GENOME, createdAt: NOW, lastUpdated: NOW };
+  let passes = 0;
+
+  tracker.applied(generateAdaptationRules(genome, { at: now }), genome);
+  session(20 * 60 * 1000).forEach((signal) => {
+    now = signal.timestamp;
+    aggregates.observe(signal);
+    tracker.observe(signal);
+    if ((now - NOW) % 5000 !== 0 || now === NOW) return;
+
+    // One pass every five seconds, as in GenomeProvider
+    const { updates } = engine.inferFromAggregates(genome, aggregates, 30000);
+    passes += 1;
+    if (Object.keys(updates).length > 0) {
+      genome = mergeGenomeUpdates(genome, updates, now);
+      tracker.applied(generateAdaptationRules(genome, { at: now }), genome);
+    }
+    const outcome = tracker.judge();
+    if (outcome) outcomes.push(outcome);
+  });
+
+  assert.equal(passes, 239);
+  // The slowdown after five minutes is judged, not superseded by later refinement
+  assert.ok(outcomes.some(outcome => outcome.traits.some(change => change.trait === 'preferredInteractionSpeed')));
+  assert.ok(outcomes.every(outcome => outcome.judgedAt - outcome.changedAt >= 60000));
+});
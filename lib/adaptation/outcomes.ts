@@ -0,0 +1,320 @@
+/**
+ * Adaptation Outcome Tracking
+ *
+ * Judges adaptations by whether they helped. Whenever a learned trait
+ * changes the rules that are applied, the outcome metrics of the recent
+ * past (misses, corrections, hover dwell) are snapshotted and compared
+ * with the same metrics once enough interaction has happened under the
+ * new rules. The difference is attributed to the trait change, and a
+ * change that measurably hurt is rolled back: the previous value is
+ * served again until the trait learns something else.
+ */
+
+import { UXGenome, SignalCollection } from '@/types/genome';
+import { TraitDefinition, TraitRegistry, TraitValue, traitRegistry, readTrait } from '@/lib/traits';
+import { SignalSummarizer } from '@/lib/stats/summary';
+import { Clock } from '@/lib/inference/engine';
+import { AdaptationRules } from './rules';
+import { OutcomeMetrics, measureOutcome, outcomeReward } from './experiment';
+
+export type OutcomeVerdict = 'improved' | 'regressed' | 'neutral';
+
+export interface RuleChange {
+  rule: string; // AdaptationRules field, or a custom property name
+  before: string | number | boolean;
+  after: string | number | boolean;
+}
+
+export interface TraitChange {
+  trait: string;
+  before: TraitValue;
+  after: TraitValue;
+}
+
+export interface AdaptationOutcome {
+  changedAt: number;
+  judgedAt: number;
+  traits: TraitChange[];
+  rules: RuleChange[];
+  before: OutcomeMetrics;
+  after: OutcomeMetrics;
+  delta: number; // reward after minus before (-1 to 1, positive helped)
+  verdict: OutcomeVerdict;
+  rolledBack: boolean;
+}
+
+export interface OutcomeReport {
+  judged: number;
+  improved: number;
+  regressed: number;
+  neutral: number;
+  rolledBack: number;
+  meanDelta: number;
+  netPositive: boolean; // adaptation helped this user on balance
+}
+
+export interface OutcomeTrackerOptions {
+  registry?: TraitRegistry;
+  clock?: Clock;
+  baselineHalfLifeMs?: number; // how far back the "before" snapshot looks
+  minSamples?: number; // hits and hovers needed on each side of a change
+  minDurationMs?: number; // time under the new rules before judging
+  maxDurationMs?: number; // changes not judged by then are dropped
+  minEffect?: number; // reward difference that counts as a real effect
+  ruleTolerance?: number; // relative change of a numeric rule that counts as a change
+  rollbackMs?: number; // how long a harmful change stays rolled back
+  rollback?: boolean; // roll back harmful changes (default true)
+  rollbacks?: Record<string, Rollback>; // from a previous getRollbacks(), e.g. restored from storage
+}
+
+interface PendingChange {
+  changedAt: number;
+  traits: TraitChange[];
+  rules: RuleChange[];
+  before: OutcomeMetrics;
+}
+
+export interface Rollback {
+  value: TraitValue; // served instead of the learned value
+  learned: TraitValue; // the learned value that hurt; learning anything else releases the rollback
+  until: number;
+}
+
+export class OutcomeTracker {
+  private readonly registry: TraitRegistry;
+  private readonly clock: Clock;
+  private readonly minSamples: number;
+  private readonly minDurationMs: number;
+  private readonly maxDurationMs: number;
+  private readonly minEffect: number;
+  private readonly ruleTolerance: number;
+  private readonly rollbackMs: number;
+  private readonly rollback: boolean;
+
+  private baseline: SignalSummarizer;
+  private after = new SignalSummarizer();
+  private pending: PendingChange | null = null;
+  private lastRules: AdaptationRules | null = null;
+  private lastTraits: Record<string, TraitValue> | null = null;
+  private rollbacks = new Map<string, Rollback>();
+  private listeners: ((outcome: AdaptationOutcome) => void)[] = [];
+
+  constructor(options: OutcomeTrackerOptions = {}) {
+    this.registry = options.registry ?? traitRegistry;
+    this.clock = options.clock ?? Date.now;
+    this.baseline = new SignalSummarizer(options.baselineHalfLifeMs ?? 60000);
+    this.minSamples = options.minSamples ?? 15;
+    this.minDurationMs = options.minDurationMs ?? 60000;
+    this.maxDurationMs = options.maxDurationMs ?? 30 * 60 * 1000;
+    this.minEffect = options.minEffect ?? 0.05;
+    this.ruleTolerance = options.ruleTolerance ?? 0.1;
+    this.rollbackMs = options.rollbackMs ?? 24 * 60 * 60 * 1000;
+    this.rollback = options.rollback ?? true;
+    Object.entries(options.rollbacks ?? {}).forEach(([trait, rollback]) => this.rollbacks.set(trait, { ...rollback }));
+  }
+
+  subscribe(callback: (outcome: AdaptationOutcome) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(cb => cb !== callback);
+    };
+  }
+
+  /**
+   * Previous values of rolled-back traits, to serve in place of the learned
+   * ones. Pass as `overrides` to generateAdaptationRules.
+   */
+  getOverrides(): Record<string, TraitValue> {
+    const now = this.clock();
+    const overrides: Record<string, TraitValue> = {};
+    this.rollbacks.forEach((rollback, trait) => {
+      if (rollback.until > now) overrides[trait] = rollback.value;
+    });
+    return overrides;
+  }
+
+  /**
+   * Rollbacks still in force, keyed by trait, in a form that can be stored
+   * and passed back as the `rollbacks` option
+   */
+  getRollbacks(): Record<string, Rollback> {
+    const now = this.clock();
+    const rollbacks: Record<string, Rollback> = {};
+    this.rollbacks.forEach((rollback, trait) => {
+      if (rollback.until > now) rollbacks[trait] = { ...rollback };
+    });
+    return rollbacks;
+  }
+
+  /**
+   * Fold a signal into the before / after snapshots
+   */
+  observe(signal: SignalCollection) {
+    this.baseline.observe(signal);
+    if (this.pending) this.after.observe(signal);
+  }
+
+  /**
+   * Record the rules just applied for a genome. When a learned trait value
+   * changed since the last tracked change, and the rules it serves changed
+   * beyond the tolerance, the change starts being tracked. Smaller drift
+   * (posterior means, interpolated durations) leaves a pending change alone.
+   */
+  applied(rules: AdaptationRules, genome: UXGenome) {
+    const traits: Record<string, TraitValue> = {};
+    this.registry.list().forEach((definition) => {
+      traits[definition.key] = readTrait(genome, definition).value;
+    });
+
+    const previousRules = this.lastRules;
+    const previousTraits = this.lastTraits;
+    if (!previousRules || !previousTraits) {
+      this.lastRules = rules;
+      this.lastTraits = traits;
+      return;
+    }
+
+    // Compared with the values of the last tracked change, so slow drift still adds up
+    const traitChanges = this.registry.list()
+      .filter(({ key }) => key in previousTraits && key in traits)
+      .filter(definition => !isSameValue(definition, traits[definition.key], previousTraits[definition.key]))
+      .map(({ key }) => ({ trait: key, before: previousTraits[key], after: traits[key] }));
+    if (traitChanges.length === 0) return;
+
+    const reference = { ...traits, ...previousTraits };
+    traitChanges.forEach(({ trait, after }) => { reference[trait] = after; });
+    this.lastRules = rules;
+    this.lastTraits = reference;
+
+    // Learning moved on from a rolled-back value
+    traitChanges.forEach(({ trait, after }) => {
+      const rollback = this.rollbacks.get(trait);
+      if (rollback && rollback.learned !== after) this.rollbacks.delete(trait);
+    });
+
+    // Not served (e.g. overridden), so there is nothing to judge
+    const ruleChanges = diffRules(previousRules, rules, this.ruleTolerance);
+    if (ruleChanges.length === 0) return;
+
+    // Overlapping changes can't be told apart; the earlier one goes unjudged
+    const before = measureOutcome(this.baseline);
+    this.pending = before.samples >= this.minSamples
+      ? { changedAt: this.clock(), traits: traitChanges, rules: ruleChanges, before }
+      : null;
+    this.after = new SignalSummarizer();
+  }
+
+  /**
+   * Judge the pending change once enough has happened under it. Returns the
+   * outcome, if one was reached.
+   */
+  judge(): AdaptationOutcome | null {
+    const pending = this.pending;
+    if (!pending) return null;
+
+    const now = this.clock();
+    const after = measureOutcome(this.after);
+    if (now - pending.changedAt > this.maxDurationMs) {
+      this.pending = null;
+      return null;
+    }
+    if (now - pending.changedAt < this.minDurationMs || after.samples < this.minSamples) return null;
+
+    const delta = outcomeReward(after) - outcomeReward(pending.before);
+    const verdict: OutcomeVerdict = delta <= -this.minEffect ? 'regressed' : delta >= this.minEffect ? 'improved' : 'neutral';
+    const rolledBack = verdict === 'regressed' && this.rollback;
+
+    if (rolledBack) {
+      pending.traits.forEach(({ trait, before, after: learned }) => {
+        this.rollbacks.set(trait, { value: before, learned, until: now + this.rollbackMs });
+      });
+    }
+
+    const outcome: AdaptationOutcome = {
+      changedAt: pending.changedAt,
+      judgedAt: now,
+      traits: pending.traits,
+      rules: pending.rules,
+      before: pending.before,
+      after,
+      delta,
+      verdict,
+      rolledBack,
+    };
+    this.pending = null;
+    this.listeners.forEach(cb => cb(outcome));
+    return outcome;
+  }
+
+  /**
+   * Forget pending changes and lift every rollback
+   */
+  reset() {
+    this.pending = null;
+    this.rollbacks.clear();
+    this.after = new SignalSummarizer();
+  }
+}
+
+/**
+ * Whether adaptation has been a net positive across judged changes
+ */
+export function summarizeOutcomes(outcomes: AdaptationOutcome[]): OutcomeReport {
+  const count = (verdict: OutcomeVerdict) => outcomes.filter(o => o.verdict === verdict).length;
+  const meanDelta = outcomes.length > 0
+    ? outcomes.reduce((sum, o) => sum + o.delta, 0) / outcomes.length
+    : 0;
+
+  return {
+    judged: outcomes.length,
+    improved: count('improved'),
+    regressed: count('regressed'),
+    neutral: count('neutral'),
+    rolledBack: outcomes.filter(o => o.rolledBack).length,
+    meanDelta,
+    netPositive: meanDelta > 0,
+  };
+}
+
+function isSameValue(definition: TraitDefinition, next: TraitValue, previous: TraitValue): boolean {
+  return definition.isStable ? definition.isStable(next, previous) : next === previous;
+}
+
+function diffRules(before: AdaptationRules, after: AdaptationRules, tolerance: number): RuleChange[] {
+  const changes: RuleChange[] = [];
+
+  (Object.keys(after) as (keyof AdaptationRules)[]).forEach((rule) => {
+    if (rule === 'customProperties') return;
+    const previous = before[rule] as RuleChange['before'];
+    const next = after[rule] as RuleChange['after'];
+    if (!isSameRule(previous, next, tolerance)) changes.push({ rule, before: previous, after: next });
+  });
+
+  Object.entries(after.customProperties).forEach(([name, value]) => {
+    const previous = before.customProperties[name];
+    if (previous !== undefined && !isSameRule(previous, value, tolerance)) changes.push({ rule: name, before: previous, after: value });
+  });
+
+  return changes;
+}
+
+/**
+ * Whether two rule values are the same within `tolerance`, relative to the
+ * larger one. Lengths compare by number when they share a unit ("12px").
+ */
+function isSameRule(before: RuleChange['before'], after: RuleChange['after'], tolerance: number): boolean {
+  if (before === after) return true;
+
+  const a = parseRuleNumber(before);
+  const b = parseRuleNumber(after);
+  if (!a || !b || a.unit !== b.unit) return false;
+  return Math.abs(a.value - b.value) <= tolerance * Math.max(Math.abs(a.value), Math.abs(b.value));
+}
+
+function parseRuleNumber(value: RuleChange['before']): { value: number; unit: string } | null {
+  if (typeof value === 'number') return { value, unit: '' };
+  if (typeof value !== 'string') return null;
+
+  const match = /^(-?\d*\.?\d+)([a-z%]*)$/.exec(value.trim());
+  return match ? { value: parseFloat(match[1]), unit: match[2] } : null;
+}
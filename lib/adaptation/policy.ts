@@ -0,0 +1,310 @@
+/**
+ * Adaptation Policy
+ *
+ * Declarative description of how traits map to adaptation rules: lookup
+ * tables per trait value, step curves over continuous metrics, and clamps
+ * on the numeric outputs. Products tune their ranges by supplying their own
+ * policy (usually a partial JSON file merged over DEFAULT_POLICY) instead of
+ * editing rules.ts. The default policy reproduces the original rules.
+ */
+
+import { MotionSensitivity, InteractionSpeed, LayoutDensity, GuidanceNeed, InputModality } from '@/types/genome';
+import { SchemaIssue, formatSchemaIssue } from '@/lib/schema/genome';
+
+export const POLICY_VERSION = 1;
+
+export type AnimationSpeed = 'fast' | 'balanced' | 'slow';
+export type SpacingLevel = 'compact' | 'standard' | 'spacious';
+export type ButtonSize = 'small' | 'standard' | 'large';
+export type TransitionType = 'ease' | 'ease-in' | 'ease-out' | 'linear';
+
+// Numeric rules a policy can clamp
+export type ClampedRule =
+  | 'animationFast'
+  | 'animationBalanced'
+  | 'animationSlow'
+  | 'tooltipDelay'
+  | 'tooltipDuration'
+  | 'maxItemsPerChunk'
+  | 'focusOutlineWidth';
+
+export interface Range {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Piecewise-constant curve: the first step whose `above` the input exceeds
+ * (steps in descending order), else `otherwise`
+ */
+export interface StepCurve<T> {
+  steps: { above: number; value: T }[];
+  otherwise: T;
+}
+
+export interface AdaptationPolicy {
+  version: number;
+  animation: {
+    baseDurations: Record<AnimationSpeed, number>; // ms
+    motionMultiplier: Record<MotionSensitivity, number>;
+    speedMultiplier: Record<InteractionSpeed, number>;
+  };
+  spacing: Record<LayoutDensity, Record<SpacingLevel, string>>; // per density tolerance
+  buttonSize: StepCurve<Record<ButtonSize, string>>; // over click precision
+  tooltip: {
+    delay: Record<GuidanceNeed, number>; // ms
+    duration: Record<GuidanceNeed, number>; // ms
+  };
+  transition: Record<MotionSensitivity, TransitionType>;
+  chunking: StepCurve<number>; // items per chunk over cognitive load
+  autoFocus: Record<InteractionSpeed, boolean>;
+  focus: {
+    outlineWidth: Record<InputModality, number>; // px
+    alwaysVisible: Record<InputModality, boolean>; // focus rings on every focus, not only keyboard focus
+    skipLinks: Record<InputModality, boolean>; // skip links stay visible instead of appearing on focus
+  };
+  clamps: Partial<Record<ClampedRule, Range>>;
+  interpolate: boolean; // blend tables between labels by the traits' continuous scores
+}
+
+// Any table or section may be left out; curves are replaced as a whole
+type DeepPartial<T> = T extends { steps: unknown[] }
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+export type PartialAdaptationPolicy = DeepPartial<AdaptationPolicy>;
+
+export const DEFAULT_POLICY: AdaptationPolicy = {
+  version: POLICY_VERSION,
+  animation: {
+    baseDurations: { fast: 150, balanced: 250, slow: 400 },
+    motionMultiplier: {
+      low: 1.2, // Longer animations
+      medium: 1,
+      high: 0.6, // Shorter animations
+    },
+    speedMultiplier: { fast: 0.8, balanced: 1, slow: 1.3 },
+  },
+  spacing: {
+    compact: { compact: '0.25rem', standard: '0.5rem', spacious: '1rem' },
+    standard: { compact: '0.5rem', standard: '1rem', spacious: '1.5rem' },
+    spacious: { compact: '0.75rem', standard: '1.5rem', spacious: '2rem' },
+  },
+  buttonSize: {
+    // Precise pointers get smaller buttons
+    steps: [{ above: 0.8, value: { small: '2rem', standard: '2.5rem', large: '3rem' } }],
+    otherwise: { small: '2.5rem', standard: '3rem', large: '3.5rem' },
+  },
+  tooltip: {
+    delay: {
+      minimal: 1000, // Show tooltips only after long hover
+      contextual: 500,
+      strong: 200, // Show tooltips quickly
+    },
+    duration: {
+      minimal: 2000, // Short tooltips
+      contextual: 4000,
+      strong: 6000, // Longer tooltips
+    },
+  },
+  // High sensitivity = linear (less motion), low sensitivity = ease (more motion)
+  transition: { low: 'ease', medium: 'ease-out', high: 'linear' },
+  chunking: {
+    // Higher cognitive load = smaller chunks
+    steps: [{ above: 0.7, value: 3 }, { above: 0.4, value: 5 }],
+    otherwise: 7,
+  },
+  autoFocus: { fast: true, balanced: false, slow: false },
+  focus: {
+    // Keyboard-first users get rings they can't lose track of
+    outlineWidth: { keyboard: 3, mixed: 2, pointer: 2 },
+    alwaysVisible: { keyboard: true, mixed: false, pointer: false },
+    skipLinks: { keyboard: true, mixed: false, pointer: false },
+  },
+  clamps: {},
+  interpolate: true,
+};
+
+export function evaluateCurve<T>(curve: StepCurve<T>, input: number): T {
+  const step = curve.steps.find(s => input > s.above);
+  return step ? step.value : curve.otherwise;
+}
+
+export function clampRule(policy: AdaptationPolicy, rule: ClampedRule, value: number): number {
+  const range = policy.clamps[rule];
+  if (!range) return value;
+  return Math.min(range.max ?? Infinity, Math.max(range.min ?? -Infinity, value));
+}
+
+/**
+ * Merge a partial policy over a base policy. Tables merge key by key; curves
+ * and clamp ranges are replaced as a whole.
+ */
+export function mergePolicy(base: AdaptationPolicy, overrides: PartialAdaptationPolicy): AdaptationPolicy {
+  return mergeTable(base, overrides) as AdaptationPolicy;
+}
+
+function mergeTable(base: unknown, override: unknown): unknown {
+  if (override === undefined) return base;
+  if (!isTable(base) || !isTable(override) || 'steps' in base || 'min' in override || 'max' in override) {
+    return override;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  Object.entries(override).forEach(([key, value]) => {
+    merged[key] = mergeTable(base[key], value);
+  });
+  return merged;
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export const CSS_LENGTH = /^(0|\d*\.?\d+(px|rem|em|%|vw|vh))$/;
+
+const SPEEDS: AnimationSpeed[] = ['fast', 'balanced', 'slow'];
+const LEVELS: SpacingLevel[] = ['compact', 'standard', 'spacious'];
+const BUTTON_SIZES: ButtonSize[] = ['small', 'standard', 'large'];
+const MOTION: MotionSensitivity[] = ['low', 'medium', 'high'];
+const INTERACTION: InteractionSpeed[] = ['fast', 'balanced', 'slow'];
+const DENSITY: LayoutDensity[] = ['compact', 'standard', 'spacious'];
+const GUIDANCE: GuidanceNeed[] = ['minimal', 'contextual', 'strong'];
+const MODALITY: InputModality[] = ['keyboard', 'mixed', 'pointer'];
+const TRANSITIONS: TransitionType[] = ['ease', 'ease-in', 'ease-out', 'linear'];
+const CLAMPED_RULES: ClampedRule[] = ['animationFast', 'animationBalanced', 'animationSlow', 'tooltipDelay', 'tooltipDuration', 'maxItemsPerChunk', 'focusOutlineWidth'];
+
+/**
+ * Validate a complete policy. Returns an empty list when it is valid.
+ */
+export function validatePolicy(value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  if (!isTable(value)) {
+    return [{ path: '', message: 'must be an object' }];
+  }
+  const policy = value;
+  const section = (name: string) => (isTable(policy[name]) ? policy[name] as Record<string, unknown> : {});
+
+  if (policy.version !== POLICY_VERSION) {
+    issues.push({ path: 'version', message: `must be ${POLICY_VERSION}` });
+  }
+
+  const isNumber = (v: unknown, min = 0) => typeof v === 'number' && Number.isFinite(v) && v >= min;
+  const isLength = (v: unknown) => typeof v === 'string' && CSS_LENGTH.test(v);
+
+  // Every key of a lookup table must be present and valid
+  const checkTable = (path: string, table: unknown, keys: readonly string[], check: (v: unknown) => boolean, expected: string) => {
+    if (!table || typeof table !== 'object') {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+    keys.forEach((key) => {
+      if (!check((table as Record<string, unknown>)[key])) {
+        issues.push({ path: `${path}.${key}`, message: `must be ${expected}` });
+      }
+    });
+  };
+
+  const checkCurve = (path: string, curve: unknown, check: (v: unknown) => boolean, expected: string) => {
+    if (!isTable(curve) || !Array.isArray(curve.steps)) {
+      issues.push({ path, message: 'must have a steps array and an otherwise value' });
+      return;
+    }
+    let previous: number | undefined;
+    curve.steps.forEach((entry: unknown, i: number) => {
+      const step = isTable(entry) ? entry : {};
+      if (typeof step.above !== 'number') {
+        issues.push({ path: `${path}.steps[${i}].above`, message: 'must be a number' });
+      } else if (previous !== undefined && step.above >= previous) {
+        issues.push({ path: `${path}.steps[${i}].above`, message: 'steps must be in descending order' });
+      }
+      previous = typeof step.above === 'number' ? step.above : undefined;
+      if (!check(step.value)) {
+        issues.push({ path: `${path}.steps[${i}].value`, message: `must be ${expected}` });
+      }
+    });
+    if (!check(curve.otherwise)) {
+      issues.push({ path: `${path}.otherwise`, message: `must be ${expected}` });
+    }
+  };
+
+  const animation = section('animation');
+  checkTable('animation.baseDurations', animation.baseDurations, SPEEDS, v => isNumber(v), 'a duration in ms');
+  checkTable('animation.motionMultiplier', animation.motionMultiplier, MOTION, v => isNumber(v), 'a non-negative number');
+  checkTable('animation.speedMultiplier', animation.speedMultiplier, INTERACTION, v => isNumber(v), 'a non-negative number');
+
+  const spacing = policy.spacing;
+  if (!isTable(spacing)) {
+    issues.push({ path: 'spacing', message: 'must be an object' });
+  } else {
+    DENSITY.forEach((density) => {
+      checkTable(`spacing.${density}`, spacing[density], LEVELS, isLength, 'a CSS length such as "1rem"');
+    });
+  }
+
+  checkCurve('buttonSize', policy.buttonSize, v => isTable(v) && BUTTON_SIZES.every(size => isLength(v[size])), 'small, standard and large CSS lengths');
+
+  const tooltip = section('tooltip');
+  checkTable('tooltip.delay', tooltip.delay, GUIDANCE, v => isNumber(v), 'a duration in ms');
+  checkTable('tooltip.duration', tooltip.duration, GUIDANCE, v => isNumber(v), 'a duration in ms');
+
+  checkTable('transition', policy.transition, MOTION, v => TRANSITIONS.includes(v as TransitionType), `one of ${TRANSITIONS.join(', ')}`);
+  checkCurve('chunking', policy.chunking, v => Number.isInteger(v) && (v as number) > 0, 'a positive whole number');
+  checkTable('autoFocus', policy.autoFocus, INTERACTION, v => typeof v === 'boolean', 'true or false');
+
+  const focus = section('focus');
+  checkTable('focus.outlineWidth', focus.outlineWidth, MODALITY, v => isNumber(v), 'a width in px');
+  checkTable('focus.alwaysVisible', focus.alwaysVisible, MODALITY, v => typeof v === 'boolean', 'true or false');
+  checkTable('focus.skipLinks', focus.skipLinks, MODALITY, v => typeof v === 'boolean', 'true or false');
+  if (typeof policy.interpolate !== 'boolean') {
+    issues.push({ path: 'interpolate', message: 'must be true or false' });
+  }
+
+  if (!isTable(policy.clamps)) {
+    issues.push({ path: 'clamps', message: 'must be an object' });
+  } else {
+    Object.entries(policy.clamps).forEach(([rule, entry]) => {
+      const range = isTable(entry) ? entry : {};
+      const path = `clamps.${rule}`;
+      if (!CLAMPED_RULES.includes(rule as ClampedRule)) {
+        issues.push({ path, message: `is not a clampable rule (${CLAMPED_RULES.join(', ')})` });
+        return;
+      }
+      if (range.min !== undefined && typeof range.min !== 'number') issues.push({ path: `${path}.min`, message: 'must be a number' });
+      if (range.max !== undefined && typeof range.max !== 'number') issues.push({ path: `${path}.max`, message: 'must be a number' });
+      if (typeof range.min === 'number' && typeof range.max === 'number' && range.min > range.max) {
+        issues.push({ path, message: 'min must not be greater than max' });
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Parse a policy file. The file may set only the sections it changes; the
+ * rest comes from `base`.
+ */
+export function parsePolicy(
+  json: string,
+  base: AdaptationPolicy = DEFAULT_POLICY
+): { policy: AdaptationPolicy; errors?: undefined } | { policy?: undefined; errors: string[] } {
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(json);
+  } catch {
+    return { errors: ['The policy file is not valid JSON'] };
+  }
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return { errors: ['The policy file must contain an object'] };
+  }
+
+  const policy = mergePolicy(base, overrides as PartialAdaptationPolicy);
+  const issues = validatePolicy(policy);
+  if (issues.length > 0) {
+    return { errors: issues.map(formatSchemaIssue) };
+  }
+  return { policy };
+}
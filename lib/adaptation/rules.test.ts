@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_GENOME } from '@/store/genomeStore';
+import { DEFAULT_POLICY, PartialAdaptationPolicy } from './policy';
+import { generateAdaptationRules } from './rules';
+
+test('a policy written before focus rules and interpolation existed still applies', () => {
+  const { focus, interpolate, ...older } = DEFAULT_POLICY;
+  const policy: PartialAdaptationPolicy = { ...older, tooltip: { delay: { contextual: 700 } } };
+
+  const rules = generateAdaptationRules(DEFAULT_GENOME, { policy });
+
+  assert.equal(rules.tooltipDelay, 700);
+  assert.equal(rules.skipLinksVisible, focus.skipLinks[DEFAULT_GENOME.inputModality]);
+  assert.deepEqual(rules, generateAdaptationRules(DEFAULT_GENOME, { policy: { tooltip: { delay: { contextual: 700 } } } }));
+});
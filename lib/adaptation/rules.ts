@@ -5,7 +5,22 @@
  * This is the "plug-and-play" layer that any app can use.
  */
 
-import { UXGenome, MotionSensitivity, InteractionSpeed, LayoutDensity, GuidanceNeed } from '@/types/genome';
+import { UXGenome, LayoutDensity, OSPreferences } from '@/types/genome';
+import { TraitRegistry, TraitScale, TraitValue, traitRegistry, readTrait, writeTrait, readTraitScore, interpolateByScore } from '@/lib/traits';
+import { resolveContextGenome } from '@/lib/context/temporal';
+import { resolveDeviceGenome } from '@/lib/context/device';
+import { NO_OS_PREFERENCES, constrainGenome, getOSConstraints } from '@/lib/context/accessibility';
+import {
+  AdaptationPolicy,
+  AnimationSpeed,
+  SpacingLevel,
+  TransitionType,
+  DEFAULT_POLICY,
+  PartialAdaptationPolicy,
+  mergePolicy,
+  evaluateCurve,
+  clampRule,
+} from './policy';
 
 export interface AdaptationRules {
   // Animation durations (ms)
@@ -28,156 +43,311 @@ export interface AdaptationRules {
   tooltipDuration: number;
   
   // Transition styles
-  transitionType: 'ease' | 'ease-in' | 'ease-out' | 'linear';
+  transitionType: TransitionType;
   
   // Information chunking
   maxItemsPerChunk: number;
   
   // Focus behavior
   autoFocusEnabled: boolean;
+  focusRingsAlwaysVisible: boolean;
+  focusOutlineWidth: number; // px
+  skipLinksVisible: boolean;
+  
+  // OS accessibility settings that override learned styling
+  highContrast: boolean;
+  reducedTransparency: boolean;
+  forcedColors: boolean;
+  
+  // CSS custom properties contributed by registered traits
+  customProperties: Record<string, string>;
+}
+
+export interface AdaptationOptions {
+  registry?: TraitRegistry;
+  at?: number; // moment whose temporal context is resolved (defaults to now)
+  partition?: string; // active device partition key, e.g. "mobile:touch"
+  os?: OSPreferences; // OS accessibility settings, hard limits on the result
+  policy?: PartialAdaptationPolicy; // how traits map to rules, merged over DEFAULT_POLICY like parsePolicy does
+  scales?: AdaptationScales; // base scales, e.g. imported from a design-token file
+  overrides?: Record<string, TraitValue>; // values served in place of learned ones, e.g. an experiment's variant
+}
+
+/**
+ * Base scales the traits adapt from. They override the policy's base
+ * durations and spacing when supplied separately (e.g. from a token file).
+ */
+export interface AdaptationScales {
+  baseDurations: Record<AnimationSpeed, number>; // ms, before motion and speed multipliers
+  spacingMap: Record<LayoutDensity, Record<SpacingLevel, string>>; // spacing per density tolerance
 }
 
+export const DEFAULT_SCALES: AdaptationScales = {
+  baseDurations: DEFAULT_POLICY.animation.baseDurations,
+  spacingMap: DEFAULT_POLICY.spacing,
+};
+
+const DEFAULT_COLORS = { primary: '#3b82f6', secondary: '#64748b', accent: '#8b5cf6' };
+const HIGH_CONTRAST_COLORS = { primary: '#1d4ed8', secondary: '#334155', accent: '#6d28d9' };
+const SYSTEM_COLORS = { primary: 'Highlight', secondary: 'CanvasText', accent: 'Highlight' };
+
 /**
  * Generate adaptation rules from genome
  */
-export function generateAdaptationRules(genome: UXGenome): AdaptationRules {
+export function generateAdaptationRules(profile: UXGenome, options: AdaptationOptions = {}): AdaptationRules {
+  const registry = options.registry ?? traitRegistry;
+  const os = options.os ?? NO_OS_PREFERENCES;
+  // Sections missing from the policy (e.g. written before `focus` existed) keep their defaults
+  const policy = withScales(options.policy ? mergePolicy(DEFAULT_POLICY, options.policy) : DEFAULT_POLICY, options.scales);
+  
+  // Adapt to the active time-of-day / day-of-week context and device partition when they are confident
+  const resolved = resolveDeviceGenome(
+    resolveContextGenome(profile, options.at ?? Date.now(), registry),
+    options.partition,
+    registry
+  );
+  
+  // OS accessibility settings bound whatever was learned or served
+  const genome = constrainGenome(withOverrides(resolved, options.overrides, registry), getOSConstraints(os), registry);
+  
+  const buttonSizes = evaluateCurve(policy.buttonSize, genome.clickPrecision);
+  const lookup = createLookup(genome, policy, registry);
+  
   const rules: AdaptationRules = {
-    // Animation speeds based on motion sensitivity and interaction speed
-    animationFast: getAnimationDuration(genome, 'fast'),
-    animationBalanced: getAnimationDuration(genome, 'balanced'),
-    animationSlow: getAnimationDuration(genome, 'slow'),
+    // Animation speeds based on motion sensitivity and interaction speed (none with reduced motion)
+    animationFast: os.reducedMotion ? 0 : getAnimationDuration('fast', policy, lookup),
+    animationBalanced: os.reducedMotion ? 0 : getAnimationDuration('balanced', policy, lookup),
+    animationSlow: os.reducedMotion ? 0 : getAnimationDuration('slow', policy, lookup),
     
     // Spacing based on density tolerance
-    spacingCompact: getSpacing(genome.layoutDensityTolerance, 'compact'),
-    spacingStandard: getSpacing(genome.layoutDensityTolerance, 'standard'),
-    spacingSpacious: getSpacing(genome.layoutDensityTolerance, 'spacious'),
+    spacingCompact: getSpacing(genome, 'compact', policy, lookup),
+    spacingStandard: getSpacing(genome, 'standard', policy, lookup),
+    spacingSpacious: getSpacing(genome, 'spacious', policy, lookup),
     
     // Button sizes based on click precision
-    buttonSizeSmall: genome.clickPrecision > 0.8 ? '2rem' : '2.5rem',
-    buttonSizeStandard: genome.clickPrecision > 0.8 ? '2.5rem' : '3rem',
-    buttonSizeLarge: genome.clickPrecision > 0.8 ? '3rem' : '3.5rem',
+    buttonSizeSmall: buttonSizes.small,
+    buttonSizeStandard: buttonSizes.standard,
+    buttonSizeLarge: buttonSizes.large,
     
     // Tooltip behavior based on guidance need
-    tooltipDelay: getTooltipDelay(genome.guidanceNeed),
-    tooltipDuration: getTooltipDuration(genome.guidanceNeed),
+    tooltipDelay: clampRule(policy, 'tooltipDelay', Math.round(lookup('guidanceNeed', policy.tooltip.delay))),
+    tooltipDuration: clampRule(policy, 'tooltipDuration', Math.round(lookup('guidanceNeed', policy.tooltip.duration))),
     
     // Transition style based on motion sensitivity
-    transitionType: getTransitionType(genome.motionSensitivity),
+    transitionType: os.reducedMotion ? 'linear' : policy.transition[genome.motionSensitivity],
     
     // Information chunking based on cognitive load
-    maxItemsPerChunk: getMaxItemsPerChunk(genome.cognitiveLoadThreshold),
+    maxItemsPerChunk: clampRule(policy, 'maxItemsPerChunk', evaluateCurve(policy.chunking, genome.cognitiveLoadThreshold)),
     
     // Auto-focus based on interaction speed
-    autoFocusEnabled: genome.preferredInteractionSpeed === 'fast',
+    autoFocusEnabled: policy.autoFocus[genome.preferredInteractionSpeed],
+    
+    // Focus rings and skip links based on input modality
+    focusRingsAlwaysVisible: policy.focus.alwaysVisible[genome.inputModality],
+    focusOutlineWidth: clampRule(policy, 'focusOutlineWidth', Number(lookup('inputModality', policy.focus.outlineWidth).toFixed(1))),
+    skipLinksVisible: policy.focus.skipLinks[genome.inputModality],
+    
+    highContrast: os.contrast === 'more',
+    reducedTransparency: os.reducedTransparency,
+    forcedColors: os.forcedColors,
+    
+    // Outputs of any trait that defines its own adaptation
+    customProperties: getCustomProperties(genome, registry),
   };
   
   return rules;
 }
 
 /**
- * Apply adaptation rules to CSS variables
+ * Every rule as a CSS custom property. This is the full token set apps can
+ * rely on outside React:
+ *
+ *   --genome-animation-{fast,balanced,slow}      durations, e.g. "250ms"
+ *   --genome-spacing-{compact,standard,spacious} lengths, e.g. "1rem"
+ *   --genome-button-{small,standard,large}-height minimum button heights
+ *   --genome-tooltip-delay, --genome-tooltip-duration  e.g. "500ms"
+ *   --genome-transition-timing                   ease | ease-in | ease-out | linear
+ *   --genome-chunk-size                          items per group, e.g. "5"
+ *   --genome-focus-width                         focus outline width, e.g. "2px"
+ *   --genome-{primary,secondary,accent}          colors
+ *   --genome-surface-opacity                     1 with reduced transparency
+ *
+ * plus the properties contributed by registered traits.
  */
-export function applyAdaptationRules(rules: AdaptationRules): void {
-  if (typeof document === 'undefined') return;
-  
-  const root = document.documentElement;
+export function getAdaptationVariables(rules: AdaptationRules): Record<string, string> {
+  // Forced colors defer to the system palette
+  const colors = rules.forcedColors ? SYSTEM_COLORS : rules.highContrast ? HIGH_CONTRAST_COLORS : DEFAULT_COLORS;
   
-  // Animation durations
-  root.style.setProperty('--genome-animation-fast', `${rules.animationFast}ms`);
-  root.style.setProperty('--genome-animation-balanced', `${rules.animationBalanced}ms`);
-  root.style.setProperty('--genome-animation-slow', `${rules.animationSlow}ms`);
-  
-  // Spacing
-  root.style.setProperty('--genome-spacing-compact', rules.spacingCompact);
-  root.style.setProperty('--genome-spacing-standard', rules.spacingStandard);
-  root.style.setProperty('--genome-spacing-spacious', rules.spacingSpacious);
-  
-  // Colors (can be extended)
-  root.style.setProperty('--genome-primary', '#3b82f6');
-  root.style.setProperty('--genome-secondary', '#64748b');
-  root.style.setProperty('--genome-accent', '#8b5cf6');
+  return {
+    '--genome-animation-fast': `${rules.animationFast}ms`,
+    '--genome-animation-balanced': `${rules.animationBalanced}ms`,
+    '--genome-animation-slow': `${rules.animationSlow}ms`,
+    
+    '--genome-spacing-compact': rules.spacingCompact,
+    '--genome-spacing-standard': rules.spacingStandard,
+    '--genome-spacing-spacious': rules.spacingSpacious,
+    
+    '--genome-button-small-height': rules.buttonSizeSmall,
+    '--genome-button-standard-height': rules.buttonSizeStandard,
+    '--genome-button-large-height': rules.buttonSizeLarge,
+    
+    '--genome-tooltip-delay': `${rules.tooltipDelay}ms`,
+    '--genome-tooltip-duration': `${rules.tooltipDuration}ms`,
+    
+    '--genome-transition-timing': rules.transitionType,
+    '--genome-chunk-size': String(rules.maxItemsPerChunk),
+    '--genome-focus-width': `${rules.focusOutlineWidth}px`,
+    
+    '--genome-primary': colors.primary,
+    '--genome-secondary': colors.secondary,
+    '--genome-accent': colors.accent,
+    
+    // Translucent surfaces become opaque
+    '--genome-surface-opacity': rules.reducedTransparency ? '1' : '0.95',
+    
+    // Registered trait outputs
+    ...rules.customProperties,
+  };
 }
 
-function getAnimationDuration(genome: UXGenome, speed: 'fast' | 'balanced' | 'slow'): number {
-  const baseDurations = {
-    fast: 150,
-    balanced: 250,
-    slow: 400,
+/**
+ * Boolean rules as data attributes ("true" / "false") on the root element,
+ * for CSS selectors such as `[data-genome-high-contrast="true"]`
+ */
+export function getAdaptationAttributes(rules: AdaptationRules): Record<string, string> {
+  return {
+    'data-genome-autofocus': String(rules.autoFocusEnabled),
+    'data-genome-focus-rings': String(rules.focusRingsAlwaysVisible),
+    'data-genome-skip-links': String(rules.skipLinksVisible),
+    'data-genome-high-contrast': String(rules.highContrast),
+    'data-genome-reduced-transparency': String(rules.reducedTransparency),
+    'data-genome-forced-colors': String(rules.forcedColors),
   };
+}
+
+// Variables written by the last apply, per root, so stale ones can be removed
+const appliedVariables = new WeakMap<HTMLElement, Record<string, string>>();
+
+/**
+ * Apply adaptation rules as CSS variables and data attributes. Only values
+ * that changed since the last apply are written. Returns the names of the
+ * variables and attributes that were touched.
+ */
+export function applyAdaptationRules(
+  rules: AdaptationRules,
+  root: HTMLElement | undefined = typeof document !== 'undefined' ? document.documentElement : undefined
+): string[] {
+  if (!root) return [];
   
-  let multiplier = 1;
+  const changed: string[] = [];
+  const previous = appliedVariables.get(root) ?? {};
+  const variables = getAdaptationVariables(rules);
   
-  // Motion sensitivity affects all animations
-  if (genome.motionSensitivity === 'high') {
-    multiplier *= 0.6; // Shorter animations
-  } else if (genome.motionSensitivity === 'low') {
-    multiplier *= 1.2; // Longer animations
-  }
+  Object.entries(variables).forEach(([name, value]) => {
+    if (previous[name] === value && root.style.getPropertyValue(name) === value) return;
+    root.style.setProperty(name, value);
+    changed.push(name);
+  });
   
-  // Interaction speed preference
-  if (genome.preferredInteractionSpeed === 'fast') {
-    multiplier *= 0.8;
-  } else if (genome.preferredInteractionSpeed === 'slow') {
-    multiplier *= 1.3;
-  }
+  // Properties of traits that no longer contribute them
+  Object.keys(previous).forEach((name) => {
+    if (name in variables) return;
+    root.style.removeProperty(name);
+    changed.push(name);
+  });
   
-  return Math.round(baseDurations[speed] * multiplier);
+  Object.entries(getAdaptationAttributes(rules)).forEach(([name, value]) => {
+    if (root.getAttribute(name) === value) return;
+    root.setAttribute(name, value);
+    changed.push(name);
+  });
+  
+  appliedVariables.set(root, variables);
+  return changed;
 }
 
-function getSpacing(density: LayoutDensity, level: 'compact' | 'standard' | 'spacious'): string {
-  const spacingMap: Record<LayoutDensity, Record<string, string>> = {
-    compact: {
-      compact: '0.25rem',
-      standard: '0.5rem',
-      spacious: '1rem',
-    },
-    standard: {
-      compact: '0.5rem',
-      standard: '1rem',
-      spacious: '1.5rem',
-    },
-    spacious: {
-      compact: '0.75rem',
-      standard: '1.5rem',
-      spacious: '2rem',
-    },
+// Scales supplied on their own replace the policy's base durations and spacing
+function withScales(policy: AdaptationPolicy, scales?: AdaptationScales): AdaptationPolicy {
+  if (!scales) return policy;
+  return {
+    ...policy,
+    animation: { ...policy.animation, baseDurations: scales.baseDurations },
+    spacing: scales.spacingMap,
   };
-  
-  return spacingMap[density][level];
 }
 
-function getTooltipDelay(guidance: GuidanceNeed): number {
-  const delays = {
-    minimal: 1000, // Show tooltips only after long hover
-    contextual: 500,
-    strong: 200, // Show tooltips quickly
-  };
+// Overridden traits adapt to exactly their value's anchor, not the learned score
+function withOverrides(genome: UXGenome, overrides: Record<string, TraitValue> | undefined, registry: TraitRegistry): UXGenome {
+  if (!overrides) return genome;
   
-  return delays[guidance];
+  const updates: Partial<UXGenome> = {};
+  Object.entries(overrides).forEach(([key, value]) => {
+    const definition = registry.get(key);
+    if (!definition) return;
+    const { meta } = readTrait(genome, definition);
+    writeTrait(updates, genome, definition, { value, meta: { ...meta, posterior: undefined } });
+  });
+  return { ...genome, ...updates };
 }
 
-function getTooltipDuration(guidance: GuidanceNeed): number {
-  const durations = {
-    minimal: 2000, // Short tooltips
-    contextual: 4000,
-    strong: 6000, // Longer tooltips
+const ANIMATION_RULES = {
+  fast: 'animationFast',
+  balanced: 'animationBalanced',
+  slow: 'animationSlow',
+} as const;
+
+/**
+ * Reads a per-label table for a trait. With interpolation on, the table is
+ * blended between labels at the trait's continuous score, so adaptation
+ * moves smoothly instead of jumping when the label changes.
+ */
+type TableLookup = <V extends string>(trait: string, table: Record<V, number>) => number;
+
+function createLookup(genome: UXGenome, policy: AdaptationPolicy, registry: TraitRegistry): TableLookup {
+  return <V extends string>(trait: string, table: Record<V, number>) => {
+    const definition = registry.get(trait);
+    if (!definition) return NaN;
+    
+    const label = readTrait(genome, definition).value as V;
+    const score = policy.interpolate && definition.scale ? readTraitScore(genome, definition) : undefined;
+    if (score === undefined) return table[label];
+    return interpolateByScore(definition.scale as TraitScale<V>, score, table);
   };
-  
-  return durations[guidance];
 }
 
-function getTransitionType(sensitivity: MotionSensitivity): 'ease' | 'ease-in' | 'ease-out' | 'linear' {
-  // High sensitivity = linear (less motion)
-  // Low sensitivity = ease (more motion)
-  if (sensitivity === 'high') return 'linear';
-  if (sensitivity === 'low') return 'ease';
-  return 'ease-out';
+function getAnimationDuration(speed: AnimationSpeed, policy: AdaptationPolicy, lookup: TableLookup): number {
+  const { baseDurations, motionMultiplier, speedMultiplier } = policy.animation;
+  
+  // Motion sensitivity affects all animations, then interaction speed preference
+  const multiplier = lookup('motionSensitivity', motionMultiplier) * lookup('preferredInteractionSpeed', speedMultiplier);
+  
+  return clampRule(policy, ANIMATION_RULES[speed], Math.round(baseDurations[speed] * multiplier));
 }
 
-function getMaxItemsPerChunk(loadThreshold: number): number {
-  // Higher cognitive load = smaller chunks
-  if (loadThreshold > 0.7) return 3;
-  if (loadThreshold > 0.4) return 5;
-  return 7;
+const LENGTH = /^(\d*\.?\d+)([a-z%]*)$/;
+
+function getSpacing(genome: UXGenome, level: SpacingLevel, policy: AdaptationPolicy, lookup: TableLookup): string {
+  const entries = Object.entries(policy.spacing).map(([density, levels]) => [density, LENGTH.exec(levels[level])] as const);
+  const units = new Set(entries.map(([, match]) => match?.[2]).filter(unit => unit !== ''));
+  
+  // Blend only lengths in one unit (a bare 0 fits any); otherwise use the label's entry
+  if (units.size !== 1 || entries.some(([, match]) => !match)) {
+    return policy.spacing[genome.layoutDensityTolerance][level];
+  }
+  
+  const table = Object.fromEntries(entries.map(([density, match]) => [density, Number(match![1])])) as Record<LayoutDensity, number>;
+  const value = lookup('layoutDensityTolerance', table);
+  return `${Number(value.toFixed(3))}${[...units][0]}`;
 }
 
+function getCustomProperties(genome: UXGenome, registry: TraitRegistry): Record<string, string> {
+  const properties: Record<string, string> = {};
+  
+  registry.list().forEach((definition) => {
+    if (!definition.adapt) return;
+    const { value } = readTrait(genome, definition);
+    Object.assign(properties, definition.adapt(value, genome));
+  });
+  
+  return properties;
+}
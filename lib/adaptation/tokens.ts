@@ -0,0 +1,310 @@
+/**
+ * Design Token Export
+ *
+ * The resolved adaptation rules as design tokens for use outside this app
+ * (native apps, email templates, Storybook): a CSS file, a W3C design-tokens
+ * document, a Tailwind preset and Style Dictionary input. Token files can
+ * also carry the base scales (`genome.scale`), which `importScaleTokens`
+ * reads back so a design system can own them.
+ */
+
+import { LayoutDensity } from '@/types/genome';
+import { SchemaIssue, formatSchemaIssue } from '@/lib/schema/genome';
+import { AnimationSpeed, SpacingLevel, CSS_LENGTH } from './policy';
+import {
+  AdaptationRules,
+  AdaptationScales,
+  DEFAULT_SCALES,
+  getAdaptationVariables,
+  getAdaptationAttributes,
+} from './rules';
+
+export type TokenFormat = 'css' | 'w3c' | 'tailwind' | 'style-dictionary';
+
+type TokenType = 'duration' | 'dimension' | 'color' | 'cubicBezier' | 'number';
+
+interface DesignToken {
+  type: TokenType;
+  value: string | number | number[];
+  description?: string;
+}
+
+interface TokenGroup {
+  [name: string]: DesignToken | TokenGroup;
+}
+
+const SPEEDS: AnimationSpeed[] = ['fast', 'balanced', 'slow'];
+const LEVELS: SpacingLevel[] = ['compact', 'standard', 'spacious'];
+const DENSITIES: LayoutDensity[] = ['compact', 'standard', 'spacious'];
+
+const TIMING_CURVES: Record<AdaptationRules['transitionType'], number[]> = {
+  ease: [0.25, 0.1, 0.25, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  linear: [0, 0, 1, 1],
+};
+
+/**
+ * Export the resolved rules (and the scales they were built from) as tokens
+ */
+export function exportTokens(
+  rules: AdaptationRules,
+  format: TokenFormat,
+  scales: AdaptationScales = DEFAULT_SCALES
+): string {
+  switch (format) {
+    case 'css':
+      return toCss(rules);
+    case 'w3c':
+      return JSON.stringify(toW3C(buildTokenTree(rules, scales), rules), null, 2);
+    case 'style-dictionary':
+      return JSON.stringify(toStyleDictionary(buildTokenTree(rules, scales)), null, 2);
+    case 'tailwind':
+      return toTailwindPreset(rules);
+  }
+}
+
+function buildTokenTree(rules: AdaptationRules, scales: AdaptationScales): TokenGroup {
+  const variables = getAdaptationVariables(rules);
+  const duration = (ms: number, description?: string): DesignToken => ({ type: 'duration', value: `${ms}ms`, description });
+  const dimension = (value: string): DesignToken => ({ type: 'dimension', value });
+
+  return {
+    genome: {
+      animation: {
+        fast: duration(rules.animationFast),
+        balanced: duration(rules.animationBalanced),
+        slow: duration(rules.animationSlow),
+      },
+      spacing: {
+        compact: dimension(rules.spacingCompact),
+        standard: dimension(rules.spacingStandard),
+        spacious: dimension(rules.spacingSpacious),
+      },
+      button: {
+        height: {
+          small: dimension(rules.buttonSizeSmall),
+          standard: dimension(rules.buttonSizeStandard),
+          large: dimension(rules.buttonSizeLarge),
+        },
+      },
+      tooltip: {
+        delay: duration(rules.tooltipDelay, 'Hover time before a tooltip shows'),
+        duration: duration(rules.tooltipDuration, 'How long a tooltip stays visible'),
+      },
+      transition: {
+        timing: { type: 'cubicBezier', value: TIMING_CURVES[rules.transitionType], description: rules.transitionType },
+      },
+      chunk: {
+        size: { type: 'number', value: rules.maxItemsPerChunk, description: 'Items to show per group' },
+      },
+      focus: {
+        width: { type: 'dimension', value: `${rules.focusOutlineWidth}px`, description: 'Focus outline width' },
+      },
+      color: {
+        primary: { type: 'color', value: variables['--genome-primary'] },
+        secondary: { type: 'color', value: variables['--genome-secondary'] },
+        accent: { type: 'color', value: variables['--genome-accent'] },
+      },
+      surface: {
+        opacity: { type: 'number', value: Number(variables['--genome-surface-opacity']) },
+      },
+      scale: {
+        duration: Object.fromEntries(
+          SPEEDS.map(speed => [speed, duration(scales.baseDurations[speed], 'Base duration before adaptation')])
+        ),
+        spacing: Object.fromEntries(
+          DENSITIES.map(density => [
+            density,
+            Object.fromEntries(LEVELS.map(level => [level, dimension(scales.spacingMap[density][level])])),
+          ])
+        ),
+      },
+    },
+  };
+}
+
+function isToken(node: DesignToken | TokenGroup): node is DesignToken {
+  return 'type' in node && 'value' in node;
+}
+
+function mapTree(group: TokenGroup, map: (token: DesignToken) => Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(group).map(([name, node]) => [name, isToken(node) ? map(node) : mapTree(node, map)])
+  );
+}
+
+function toCss(rules: AdaptationRules): string {
+  const variables = Object.entries(getAdaptationVariables(rules))
+    .map(([name, value]) => `  ${name}: ${value};`)
+    .join('\n');
+  const flags = Object.entries(getAdaptationAttributes(rules))
+    .map(([name, value]) => ` *   ${name}="${value}"`)
+    .join('\n');
+
+  return `/**\n * UX Genome tokens\n *\n * Boolean rules, set as attributes on <html>:\n${flags}\n */\n:root {\n${variables}\n}\n`;
+}
+
+// https://design-tokens.github.io/community-group/format/
+function toW3C(tree: TokenGroup, rules: AdaptationRules): Record<string, unknown> {
+  return {
+    ...mapTree(tree, token => ({
+      $type: token.type,
+      $value: token.value,
+      ...(token.description && { $description: token.description }),
+    })),
+    $extensions: {
+      'ux-genome': {
+        autoFocusEnabled: rules.autoFocusEnabled,
+        focusRingsAlwaysVisible: rules.focusRingsAlwaysVisible,
+        skipLinksVisible: rules.skipLinksVisible,
+        highContrast: rules.highContrast,
+        reducedTransparency: rules.reducedTransparency,
+        forcedColors: rules.forcedColors,
+      },
+    },
+  };
+}
+
+// Style Dictionary's classic format: `value` plus attributes
+function toStyleDictionary(tree: TokenGroup): Record<string, unknown> {
+  return mapTree(tree, token => ({
+    value: token.type === 'cubicBezier' ? `cubic-bezier(${(token.value as number[]).join(', ')})` : token.value,
+    type: token.type,
+    ...(token.description && { comment: token.description }),
+  }));
+}
+
+// Same token names as this app's tailwind.config.js, with the resolved values
+function toTailwindPreset(rules: AdaptationRules): string {
+  const variables = getAdaptationVariables(rules);
+  const buttonHeights = {
+    'genome-button-small': rules.buttonSizeSmall,
+    'genome-button-standard': rules.buttonSizeStandard,
+    'genome-button-large': rules.buttonSizeLarge,
+  };
+
+  const preset = {
+    theme: {
+      extend: {
+        colors: {
+          genome: {
+            primary: variables['--genome-primary'],
+            secondary: variables['--genome-secondary'],
+            accent: variables['--genome-accent'],
+          },
+        },
+        transitionDuration: {
+          'genome-fast': `${rules.animationFast}ms`,
+          'genome-balanced': `${rules.animationBalanced}ms`,
+          'genome-slow': `${rules.animationSlow}ms`,
+        },
+        transitionTimingFunction: { genome: rules.transitionType },
+        transitionDelay: { 'genome-tooltip': `${rules.tooltipDelay}ms` },
+        spacing: {
+          'genome-compact': rules.spacingCompact,
+          'genome-standard': rules.spacingStandard,
+          'genome-spacious': rules.spacingSpacious,
+        },
+        minHeight: buttonHeights,
+        height: buttonHeights,
+        gridTemplateColumns: { 'genome-chunk': `repeat(${rules.maxItemsPerChunk}, minmax(0, 1fr))` },
+        ringWidth: { 'genome-focus': `${rules.focusOutlineWidth}px` },
+        outlineWidth: { 'genome-focus': `${rules.focusOutlineWidth}px` },
+        opacity: { 'genome-surface': variables['--genome-surface-opacity'] },
+      },
+    },
+  };
+
+  return `/** UX Genome Tailwind preset: add to \`presets\` in tailwind.config.js */\nmodule.exports = ${JSON.stringify(preset, null, 2)};\n`;
+}
+
+/**
+ * Read base scales from a token file (W3C or Style Dictionary format, as
+ * written by exportTokens). Scales missing from the file keep their defaults.
+ */
+export function importScaleTokens(
+  json: string,
+  defaults: AdaptationScales = DEFAULT_SCALES
+): { scales: AdaptationScales; errors?: undefined } | { scales?: undefined; errors: string[] } {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    return { errors: ['The token file is not valid JSON'] };
+  }
+
+  const scale = lookupPath(document, 'genome', 'scale');
+  if (!isGroup(scale)) {
+    return { errors: ['genome.scale: the token file has no scale group'] };
+  }
+
+  const issues: SchemaIssue[] = [];
+  const scales: AdaptationScales = {
+    baseDurations: { ...defaults.baseDurations },
+    spacingMap: {
+      compact: { ...defaults.spacingMap.compact },
+      standard: { ...defaults.spacingMap.standard },
+      spacious: { ...defaults.spacingMap.spacious },
+    },
+  };
+
+  SPEEDS.forEach((speed) => {
+    const token = lookupPath(scale, 'duration', speed);
+    if (token === undefined) return;
+
+    const path = `genome.scale.duration.${speed}`;
+    const ms = parseDuration(tokenValue(token));
+    if (ms === null) {
+      issues.push({ path, message: 'must be a duration such as "150ms" or "0.15s"' });
+    } else {
+      scales.baseDurations[speed] = ms;
+    }
+  });
+
+  DENSITIES.forEach((density) => {
+    LEVELS.forEach((level) => {
+      const token = lookupPath(scale, 'spacing', density, level);
+      if (token === undefined) return;
+
+      const path = `genome.scale.spacing.${density}.${level}`;
+      const value = tokenValue(token);
+      if (typeof value !== 'string' || !CSS_LENGTH.test(value)) {
+        issues.push({ path, message: 'must be a CSS length such as "1rem" or "16px"' });
+      } else {
+        scales.spacingMap[density][level] = value;
+      }
+    });
+  });
+
+  if (issues.length > 0) {
+    return { errors: issues.map(formatSchemaIssue) };
+  }
+  return { scales };
+}
+
+function isGroup(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Walk nested groups of a parsed token file; undefined where a group is missing
+function lookupPath(value: unknown, ...path: string[]): unknown {
+  return path.reduce<unknown>((node, key) => (isGroup(node) ? node[key] : undefined), value);
+}
+
+// W3C tokens use `$value`, Style Dictionary uses `value`
+function tokenValue(token: unknown): unknown {
+  if (isGroup(token)) {
+    return '$value' in token ? token.$value : token.value;
+  }
+  return token;
+}
+
+function parseDuration(value: unknown): number | null {
+  if (typeof value === 'number') return value >= 0 ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const match = /^(\d*\.?\d+)(ms|s)$/.exec(value.trim());
+  if (!match) return null;
+  return match[2] === 's' ? Number(match[1]) * 1000 : Number(match[1]);
+}
@@ -0,0 +1,162 @@
+/**
+ * Encrypted Genome Backup
+ *
+ * Passphrase-encrypted backups (PBKDF2 + AES-GCM via WebCrypto). Only the
+ * encrypted envelope ever leaves the browser, so whatever stores it never
+ * sees trait values. Restored plaintext goes through importGenome, which
+ * migrates and validates it.
+ */
+
+import { getSubtle, toBase64, fromBase64, encodeText } from '@/lib/crypto/encoding';
+
+export const BACKUP_FORMAT = 'ux-genome-backup';
+export const BACKUP_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 310000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+const MAX_PBKDF2_ITERATIONS = 10_000_000; // a crafted backup could otherwise stall key derivation indefinitely
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string; // ISO 8601
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  ciphertext: string; // base64
+}
+
+/**
+ * Where backups are kept: a file, the user's own cloud storage, etc.
+ */
+export interface BackupStorageAdapter {
+  save(backup: EncryptedBackup): Promise<void>;
+  load(): Promise<EncryptedBackup | null>; // null when the user cancelled or nothing is stored
+}
+
+export async function encryptBackup(plaintext: string, passphrase: string): Promise<EncryptedBackup> {
+  if (!passphrase) {
+    throw new Error('A passphrase is required');
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt.buffer as ArrayBuffer, PBKDF2_ITERATIONS, ['encrypt']);
+  const ciphertext = await getSubtle().encrypt({ name: 'AES-GCM', iv }, key, encodeText(plaintext));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt a backup. Throws on a wrong passphrase or a modified backup.
+ */
+export async function decryptBackup(backup: EncryptedBackup, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, fromBase64(backup.kdf.salt), backup.kdf.iterations, ['decrypt']);
+
+  try {
+    const plaintext = await getSubtle().decrypt(
+      { name: 'AES-GCM', iv: fromBase64(backup.cipher.iv) },
+      key,
+      fromBase64(backup.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('Wrong passphrase, or the backup has been modified');
+  }
+}
+
+/**
+ * Parse a stored backup, checking it is one this version can decrypt
+ */
+export function parseBackup(json: string): EncryptedBackup {
+  let backup: EncryptedBackup;
+  try {
+    backup = JSON.parse(json);
+  } catch {
+    throw new Error('The backup is not valid JSON');
+  }
+
+  if (backup?.format !== BACKUP_FORMAT) {
+    throw new Error('Not a UX Genome backup');
+  }
+  if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${backup.version}`);
+  }
+  if (backup.kdf?.name !== 'PBKDF2' || backup.cipher?.name !== 'AES-GCM' || typeof backup.ciphertext !== 'string') {
+    throw new Error('Unsupported backup encryption');
+  }
+  const { iterations } = backup.kdf;
+  if (!Number.isInteger(iterations) || iterations <= 0 || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error(`kdf.iterations: expected a whole number from 1 to ${MAX_PBKDF2_ITERATIONS}`);
+  }
+  if (typeof backup.kdf.salt !== 'string') {
+    throw new Error('kdf.salt: expected a base64 string');
+  }
+  if (typeof backup.cipher.iv !== 'string') {
+    throw new Error('cipher.iv: expected a base64 string');
+  }
+
+  return backup;
+}
+
+/**
+ * Saves backups as downloaded files and loads them through a file picker.
+ * `load` must be called from a user gesture (e.g. a click handler).
+ */
+export class FileBackupStorage implements BackupStorageAdapter {
+  constructor(private filename: string = 'ux-genome-backup.json') {}
+
+  async save(backup: EncryptedBackup) {
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = this.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  load(): Promise<EncryptedBackup | null> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = 'application/json,.json';
+      input.onchange = () => {
+        const file = input.files?.[0];
+        if (!file) {
+          resolve(null);
+          return;
+        }
+        file.text().then(text => resolve(parseBackup(text))).catch(reject);
+      };
+      // Closing the picker without a file fires no change event
+      input.oncancel = () => resolve(null);
+      input.click();
+    });
+  }
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: ArrayBuffer,
+  iterations: number,
+  usages: KeyUsage[]
+): Promise<CryptoKey> {
+  const subtle = getSubtle();
+  const material = await subtle.importKey('raw', encodeText(passphrase), 'PBKDF2', false, ['deriveKey']);
+
+  return subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    usages
+  );
+}
@@ -0,0 +1,190 @@
+/**
+ * OS Accessibility Preferences
+ *
+ * Reduced motion, contrast, reduced transparency and forced colors are
+ * explicit choices the user made in their system settings, so they outrank
+ * anything learned from behavior. They seed trait priors with elevated
+ * confidence, and impose floors/ceilings on trait values that inference can
+ * never push past. Adaptation applies further hard limits (e.g. reduced
+ * motion pins animation durations to zero).
+ */
+
+import { UXGenome, OSPreferences, ContrastPreference } from '@/types/genome';
+import { TraitDefinition, TraitRegistry, TraitValue, traitRegistry, readTrait, writeTrait, clampTraitScore } from '@/lib/traits';
+
+export const NO_OS_PREFERENCES: OSPreferences = {
+  reducedMotion: false,
+  contrast: 'no-preference',
+  reducedTransparency: false,
+  forcedColors: false,
+};
+
+const CONTRAST_VALUES: ContrastPreference[] = ['more', 'less', 'custom'];
+
+const MEDIA_QUERIES = [
+  '(prefers-reduced-motion: reduce)',
+  '(prefers-reduced-transparency: reduce)',
+  '(forced-colors: active)',
+  ...CONTRAST_VALUES.map(value => `(prefers-contrast: ${value})`),
+];
+
+// Bounds on a trait's value, in domain order for categorical traits
+export interface TraitConstraint {
+  trait: string;
+  floor?: TraitValue;
+  ceiling?: TraitValue;
+  reason: string; // shown to the user
+}
+
+export interface TraitPrior {
+  trait: string;
+  value: TraitValue;
+  confidence: number;
+}
+
+/**
+ * Read the current OS preferences
+ */
+export function detectOSPreferences(): OSPreferences {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+    return NO_OS_PREFERENCES;
+  }
+
+  const matches = (query: string) => window.matchMedia(query).matches;
+  return {
+    reducedMotion: matches('(prefers-reduced-motion: reduce)'),
+    contrast: CONTRAST_VALUES.find(value => matches(`(prefers-contrast: ${value})`)) ?? 'no-preference',
+    reducedTransparency: matches('(prefers-reduced-transparency: reduce)'),
+    forcedColors: matches('(forced-colors: active)'),
+  };
+}
+
+/**
+ * Call `listener` with fresh preferences whenever any of them changes
+ */
+export function watchOSPreferences(listener: (preferences: OSPreferences) => void): () => void {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+    return () => {};
+  }
+
+  const onChange = () => listener(detectOSPreferences());
+  const queries = MEDIA_QUERIES.map(query => window.matchMedia(query));
+  queries.forEach(query => query.addEventListener('change', onChange));
+  return () => queries.forEach(query => query.removeEventListener('change', onChange));
+}
+
+export function getOSConstraints(preferences: OSPreferences): TraitConstraint[] {
+  const constraints: TraitConstraint[] = [];
+
+  if (preferences.reducedMotion) {
+    constraints.push({ trait: 'motionSensitivity', floor: 'medium', reason: 'Reduced motion is on in your system settings' });
+  }
+  // Cramped layouts are hardest to read for people who need extra contrast
+  if (preferences.contrast === 'more' || preferences.forcedColors) {
+    constraints.push({
+      trait: 'layoutDensityTolerance',
+      floor: 'standard',
+      reason: preferences.forcedColors
+        ? 'High contrast colors are on in your system settings'
+        : 'Increased contrast is on in your system settings',
+    });
+  }
+
+  return constraints;
+}
+
+export function getOSPriors(preferences: OSPreferences): TraitPrior[] {
+  const priors: TraitPrior[] = [];
+
+  if (preferences.reducedMotion) {
+    priors.push({ trait: 'motionSensitivity', value: 'high', confidence: 0.7 });
+  }
+  if (preferences.contrast === 'more' || preferences.forcedColors) {
+    priors.push({ trait: 'layoutDensityTolerance', value: 'spacious', confidence: 0.6 });
+  }
+
+  return priors;
+}
+
+/**
+ * Seed traits nothing has been learned about yet with the OS priors.
+ * Returns null when no trait needs seeding.
+ */
+export function seedOSPriors(
+  genome: UXGenome,
+  preferences: OSPreferences,
+  registry: TraitRegistry = traitRegistry,
+  now: number = Date.now()
+): Partial<UXGenome> | null {
+  const updates: Partial<UXGenome> = {};
+  let seeded = false;
+
+  getOSPriors(preferences).forEach((prior) => {
+    const definition = registry.get(prior.trait);
+    if (!definition) return;
+
+    const { meta } = readTrait(genome, definition);
+    if (meta.state === 'locked' || meta.sampleCount > 0 || meta.confidence >= prior.confidence) return;
+
+    writeTrait(updates, genome, definition, {
+      value: prior.value,
+      meta: { ...meta, confidence: prior.confidence, state: 'tentative', lastUpdated: now },
+    });
+    seeded = true;
+  });
+
+  return seeded ? updates : null;
+}
+
+/**
+ * Clamp a value into a constraint's bounds
+ */
+export function clampTraitValue<V extends TraitValue>(definition: TraitDefinition<V>, value: V, constraint: TraitConstraint): V {
+  const { domain } = definition;
+  if (Array.isArray(domain)) {
+    const values = domain as readonly V[];
+    const floor = constraint.floor !== undefined ? values.indexOf(constraint.floor as V) : 0;
+    const ceiling = constraint.ceiling !== undefined ? values.indexOf(constraint.ceiling as V) : values.length - 1;
+    const index = Math.min(Math.max(values.indexOf(value), floor), ceiling);
+    return values[index];
+  }
+
+  const floor = typeof constraint.floor === 'number' ? constraint.floor : -Infinity;
+  const ceiling = typeof constraint.ceiling === 'number' ? constraint.ceiling : Infinity;
+  return Math.min(Math.max(value as number, floor), ceiling) as V;
+}
+
+/**
+ * Genome with every constrained trait clamped into its bounds. Stored
+ * values are left alone, so the learned profile returns once the OS
+ * setting is turned off.
+ */
+export function constrainGenome(
+  genome: UXGenome,
+  constraints: TraitConstraint[],
+  registry: TraitRegistry = traitRegistry
+): UXGenome {
+  if (constraints.length === 0) return genome;
+
+  const updates: Partial<UXGenome> = {};
+  constraints.forEach((constraint) => {
+    const definition = registry.get(constraint.trait);
+    if (!definition) return;
+
+    const current = readTrait(genome, definition);
+    const value = clampTraitValue(definition, current.value, constraint);
+    
+    // The learned score must not interpolate past the bound either
+    const { posterior } = current.meta;
+    const mean = posterior?.kind === 'gaussian' ? clampTraitScore(definition, posterior.mean, constraint) : undefined;
+    const clamped = posterior?.kind === 'gaussian' && mean !== posterior.mean;
+    if (value !== current.value || clamped) {
+      writeTrait(updates, genome, definition, {
+        value,
+        meta: { ...current.meta, posterior: clamped ? { ...posterior, mean: mean! } : posterior },
+      });
+    }
+  });
+
+  return { ...genome, ...updates };
+}
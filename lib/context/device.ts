@@ -0,0 +1,109 @@
+/**
+ * Device Partitions
+ *
+ * A touch phone and a desktop mouse produce very different click precision.
+ * Signals are tagged with the device class and pointer type they were
+ * captured on, each combination learns its own partition, and adaptation
+ * uses the partition of the device currently in use. Traits marked `pooled`
+ * (e.g. guidance need) are shared across partitions.
+ */
+
+import { UXGenome, SignalCollection, DeviceType, PointerType, SignalDeviceContext } from '@/types/genome';
+import { TraitRegistry, traitRegistry, readTrait, writeTrait } from '@/lib/traits';
+
+export const DEVICE_LABELS: Record<DeviceType, string> = {
+  mobile: 'Phone',
+  tablet: 'Tablet',
+  desktop: 'Desktop',
+};
+
+export const POINTER_LABELS: Record<PointerType, string> = {
+  mouse: 'mouse',
+  pen: 'pen',
+  touch: 'touch',
+};
+
+// Partitions below this confidence fall back to the global profile
+const MIN_PARTITION_CONFIDENCE = 0.6;
+
+export function classifyDeviceType(width: number): DeviceType {
+  if (width < 768) return 'mobile';
+  if (width < 1024) return 'tablet';
+  return 'desktop';
+}
+
+export function toPointerType(pointerType: string): PointerType {
+  if (pointerType === 'touch' || pointerType === 'pen') return pointerType;
+  return 'mouse';
+}
+
+export function getPartitionKey(device: SignalDeviceContext): string {
+  return `${device.deviceType}:${device.pointerType}`;
+}
+
+export function getPartitionLabel(device: SignalDeviceContext): string {
+  return `${DEVICE_LABELS[device.deviceType]} (${POINTER_LABELS[device.pointerType]})`;
+}
+
+/**
+ * Best guess of the current device before any pointer event has been seen
+ */
+export function detectDeviceContext(): SignalDeviceContext {
+  if (typeof window === 'undefined') {
+    return { deviceType: 'desktop', pointerType: 'mouse' };
+  }
+
+  const coarse = typeof window.matchMedia === 'function' && window.matchMedia('(pointer: coarse)').matches;
+  return {
+    deviceType: classifyDeviceType(window.innerWidth),
+    pointerType: coarse ? 'touch' : 'mouse',
+  };
+}
+
+/**
+ * Group signals by the partition they were captured on. Untagged signals
+ * (e.g. from older recordings) only feed the global profile.
+ */
+export function groupSignalsByPartition(signals: SignalCollection[]): Map<string, SignalCollection[]> {
+  const groups = new Map<string, SignalCollection[]>();
+
+  signals.forEach((signal) => {
+    if (!signal.device) return;
+    const key = getPartitionKey(signal.device);
+    const group = groups.get(key) ?? [];
+    group.push(signal);
+    groups.set(key, group);
+  });
+
+  return groups;
+}
+
+/**
+ * Genome to adapt to on a device: partition traits that are confident
+ * replace the global ones, pooled traits always stay global.
+ */
+export function resolveDeviceGenome(
+  genome: UXGenome,
+  partitionKey: string | undefined,
+  registry: TraitRegistry = traitRegistry
+): UXGenome {
+  const partition = partitionKey ? genome.devicePartitions?.[partitionKey] : undefined;
+  if (!partition) return genome;
+
+  const updates: Partial<UXGenome> = {
+    clickPrecision: partition.clickPrecision,
+    cursorSmoothness: partition.cursorSmoothness,
+  };
+
+  registry.list().forEach((definition) => {
+    if (definition.pooled) return;
+    if (readTrait(genome, definition).meta.state === 'locked') return;
+
+    const state = partition.traits[definition.key];
+    if (state && state.meta.confidence >= MIN_PARTITION_CONFIDENCE) {
+      writeTrait(updates, genome, definition, state);
+    }
+  });
+
+  return { ...genome, ...updates };
+}
@@ -0,0 +1,33 @@
+/**
+ * Context Profiles
+ *
+ * Shared helpers for sub-profiles (temporal contexts, device partitions) that
+ * hold their own trait states on top of the global genome.
+ */
+
+import { UXGenome, ContextProfile } from '@/types/genome';
+import { TraitRegistry, traitRegistry, readTrait, writeTrait, createDefaultMeta } from '@/lib/traits';
+
+/**
+ * Genome as seen from inside one profile: the profile's trait states, with
+ * traits the profile has not learned yet starting from the global value.
+ */
+export function applyContextProfile(
+  genome: UXGenome,
+  profile: ContextProfile | undefined,
+  now: number,
+  registry: TraitRegistry = traitRegistry
+): UXGenome {
+  const updates: Partial<UXGenome> = {};
+
+  registry.list().forEach((definition) => {
+    const stored = profile?.traits[definition.key];
+    const state = stored ?? {
+      value: readTrait(genome, definition).value,
+      meta: { ...createDefaultMeta(), lastUpdated: now },
+    };
+    writeTrait(updates, genome, definition, state);
+  });
+
+  return { ...genome, ...updates };
+}
@@ -0,0 +1,106 @@
+/**
+ * Temporal Context Profiles
+ *
+ * Users behave differently at 9am and 11pm. Signals are grouped by the time
+ * of day and day of week of their timestamps, each group feeds its own
+ * sub-profile, and adaptation resolves the active context at apply time.
+ */
+
+import {
+  UXGenome,
+  SignalCollection,
+  TimeOfDay,
+  DayType,
+  TemporalContextKey,
+} from '@/types/genome';
+import { TraitRegistry, traitRegistry, readTrait, writeTrait } from '@/lib/traits';
+
+export const TIME_OF_DAY_CONTEXTS: TimeOfDay[] = ['morning', 'afternoon', 'evening', 'night'];
+export const DAY_TYPE_CONTEXTS: DayType[] = ['weekday', 'weekend'];
+
+export const CONTEXT_LABELS: Record<TemporalContextKey, string> = {
+  morning: 'Mornings',
+  afternoon: 'Afternoons',
+  evening: 'Evenings',
+  night: 'Nights',
+  weekday: 'Weekdays',
+  weekend: 'Weekends',
+};
+
+// Context profiles below this confidence fall back to the global profile
+const MIN_CONTEXT_CONFIDENCE = 0.6;
+
+export function getTimeOfDay(timestamp: number): TimeOfDay {
+  const hour = new Date(timestamp).getHours();
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+}
+
+export function getDayType(timestamp: number): DayType {
+  const day = new Date(timestamp).getDay();
+  return day === 0 || day === 6 ? 'weekend' : 'weekday';
+}
+
+/**
+ * Contexts active at a moment, most specific first
+ */
+export function getActiveContexts(timestamp: number): TemporalContextKey[] {
+  return [getTimeOfDay(timestamp), getDayType(timestamp)];
+}
+
+/**
+ * Group signals by every context their timestamp falls into
+ */
+export function groupSignalsByContext(signals: SignalCollection[]): Map<TemporalContextKey, SignalCollection[]> {
+  const groups = new Map<TemporalContextKey, SignalCollection[]>();
+
+  signals.forEach((signal) => {
+    getActiveContexts(signal.timestamp).forEach((key) => {
+      const group = groups.get(key) ?? [];
+      group.push(signal);
+      groups.set(key, group);
+    });
+  });
+
+  return groups;
+}
+
+/**
+ * Genome to adapt to right now: each trait takes the value of the most
+ * specific active context that is confident about it, otherwise the global one.
+ */
+export function resolveContextGenome(
+  genome: UXGenome,
+  at: number,
+  registry: TraitRegistry = traitRegistry
+): UXGenome {
+  const profiles = genome.contextProfiles;
+  if (!profiles) return genome;
+
+  const contexts = getActiveContexts(at);
+  const updates: Partial<UXGenome> = {};
+
+  registry.list().forEach((definition) => {
+    // A trait the user locked always uses the global value
+    if (readTrait(genome, definition).meta.state === 'locked') return;
+
+    const match = contexts
+      .map(key => profiles[key]?.traits[definition.key])
+      .find(state => state && state.meta.confidence >= MIN_CONTEXT_CONFIDENCE);
+
+    if (match) {
+      writeTrait(updates, genome, definition, match);
+    }
+  });
+
+  return { ...genome, ...updates };
+}
+
+/**
+ * Key that changes whenever the active contexts change
+ */
+export function getContextKey(timestamp: number): string {
+  return getActiveContexts(timestamp).join(':');
+}
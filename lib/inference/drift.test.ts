@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TraitInference } from '@/types/genome';
+import { DriftDetector } from './drift';
+
+// One pass whose posterior still says 'low' while the pass itself saw `passValue`
+function pass(passValue: string, timestamp: number): TraitInference {
+  return {
+    trait: 'motionSensitivity',
+    timestamp,
+    value: 'low',
+    previousValue: 'low',
+    passValue,
+    passConfidence: 0.8,
+    confidence: 0.9,
+    confidenceDelta: 0,
+    reasoning: [],
+  };
+}
+
+test('drift is detected from per-pass estimates while the posterior lags behind', () => {
+  const detector = new DriftDetector({ clock: () => 0 });
+  const events = [
+    ...Array.from({ length: 10 }, (_, i) => pass('low', i)),
+    ...Array.from({ length: 10 }, (_, i) => pass('high', 10 + i)),
+  ].flatMap(inference => detector.observe([inference]));
+
+  assert.equal(events.length, 1);
+  assert.equal(events[0].trait, 'motionSensitivity');
+  assert.equal(events[0].before.value, 'low');
+  assert.equal(events[0].after.value, 'high');
+});
+
+test('steady per-pass estimates are no drift', () => {
+  const detector = new DriftDetector({ clock: () => 0 });
+  const events = Array.from({ length: 20 }, (_, i) => pass('low', i)).flatMap(inference => detector.observe([inference]));
+
+  assert.equal(events.length, 0);
+});
@@ -0,0 +1,219 @@
+/**
+ * Drift Detector
+ *
+ * Keeps a rolling history of each trait's inferred values and runs a
+ * two-sided CUSUM change-point test over it. When a user's behavior shifts
+ * (an injury, a new pointing device) the trait is moved back to `tentative`
+ * so it re-adapts quickly instead of waiting for confidence to erode.
+ */
+
+import { UXGenome, TraitInference } from '@/types/genome';
+import { TraitDefinition, TraitRegistry, TraitValue, traitRegistry, readTrait, writeTrait } from '@/lib/traits';
+import { Clock } from './engine';
+
+export interface DriftSummary {
+  value: TraitValue; // dominant value (mode for categorical, mean for continuous)
+  mean: number; // normalized 0-1 score
+  samples: number;
+}
+
+export interface DriftEvent {
+  trait: string;
+  detectedAt: number;
+  before: DriftSummary;
+  after: DriftSummary;
+}
+
+export interface DriftDetectorOptions {
+  registry?: TraitRegistry;
+  clock?: Clock;
+  historySize?: number; // inferred values kept per trait
+  minSamples?: number; // observations needed to establish a baseline
+  slack?: number; // CUSUM allowance (k), in normalized units
+  threshold?: number; // CUSUM decision interval (h), in normalized units
+}
+
+interface TraitHistory {
+  values: TraitValue[];
+  baseline: number | null; // mean normalized score before any change
+  baselineValues: TraitValue[];
+  positive: number; // upward cumulative sum
+  negative: number; // downward cumulative sum
+  changeStart: number; // index where the current excursion began
+}
+
+export class DriftDetector {
+  private readonly registry: TraitRegistry;
+  private readonly clock: Clock;
+  private readonly historySize: number;
+  private readonly minSamples: number;
+  private readonly slack: number;
+  private readonly threshold: number;
+
+  private histories = new Map<string, TraitHistory>();
+  private listeners: ((event: DriftEvent) => void)[] = [];
+
+  constructor(options: DriftDetectorOptions = {}) {
+    this.registry = options.registry ?? traitRegistry;
+    this.clock = options.clock ?? Date.now;
+    this.historySize = options.historySize ?? 60;
+    this.minSamples = options.minSamples ?? 8;
+    this.slack = options.slack ?? 0.1;
+    this.threshold = options.threshold ?? 2;
+  }
+
+  subscribe(callback: (event: DriftEvent) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(cb => cb !== callback);
+    };
+  }
+
+  /**
+   * Record the traits inferred in one pass and return any detected drift.
+   * The test runs on each pass's own estimate: the posterior value is
+   * smoothed over many passes and would hide the change it is looking for.
+   */
+  observe(inferences: TraitInference[]): DriftEvent[] {
+    const events: DriftEvent[] = [];
+
+    inferences.forEach((inference) => {
+      const definition = this.registry.get(inference.trait);
+      if (!definition) return;
+
+      const event = this.record(definition, inference.passValue);
+      if (event) events.push(event);
+    });
+
+    events.forEach(event => this.listeners.forEach(cb => cb(event)));
+    return events;
+  }
+
+  /**
+   * Move drifted traits back to `tentative` so they re-learn quickly
+   */
+  applyDrift(genome: UXGenome, events: DriftEvent[]): Partial<UXGenome> {
+    const updates: Partial<UXGenome> = {};
+
+    events.forEach((event) => {
+      const definition = this.registry.get(event.trait);
+      if (!definition) return;
+
+      const current = readTrait({ ...genome, ...updates }, definition);
+      writeTrait(updates, genome, definition, {
+        value: current.value,
+        meta: {
+          ...current.meta,
+          confidence: Math.min(current.meta.confidence, 0.5),
+          posterior: undefined, // re-derived from the value at the lower confidence
+          lastUpdated: event.detectedAt,
+          state: 'tentative',
+        },
+      });
+    });
+
+    return updates;
+  }
+
+  /**
+   * Forget the history of one trait, or all traits
+   */
+  reset(trait?: string) {
+    if (trait) this.histories.delete(trait);
+    else this.histories.clear();
+  }
+
+  private record(definition: TraitDefinition, value: TraitValue): DriftEvent | null {
+    const history = this.histories.get(definition.key) ?? createHistory();
+    this.histories.set(definition.key, history);
+
+    history.values.push(value);
+    if (history.values.length > this.historySize) {
+      history.values.shift();
+      history.changeStart = Math.max(0, history.changeStart - 1);
+    }
+
+    // Establish the baseline from the first observations
+    if (history.baseline === null) {
+      if (history.values.length >= this.minSamples) {
+        history.baselineValues = [...history.values];
+        history.baseline = mean(history.values.map(v => normalize(definition, v)));
+        history.changeStart = history.values.length;
+      }
+      return null;
+    }
+
+    const score = normalize(definition, value);
+    const wasResting = history.positive === 0 && history.negative === 0;
+    history.positive = Math.max(0, history.positive + score - history.baseline - this.slack);
+    history.negative = Math.max(0, history.negative + history.baseline - score - this.slack);
+
+    if (history.positive === 0 && history.negative === 0) {
+      history.changeStart = history.values.length;
+    } else if (wasResting) {
+      history.changeStart = history.values.length - 1;
+    }
+
+    if (history.positive < this.threshold && history.negative < this.threshold) {
+      return null;
+    }
+
+    const afterValues = history.values.slice(history.changeStart);
+    const event: DriftEvent = {
+      trait: definition.key,
+      detectedAt: this.clock(),
+      before: summarize(definition, history.baselineValues),
+      after: summarize(definition, afterValues),
+    };
+
+    // The post-change segment seeds the next baseline
+    const restarted = createHistory();
+    restarted.values = afterValues;
+    this.histories.set(definition.key, restarted);
+
+    return event;
+  }
+}
+
+function createHistory(): TraitHistory {
+  return {
+    values: [],
+    baseline: null,
+    baselineValues: [],
+    positive: 0,
+    negative: 0,
+    changeStart: 0,
+  };
+}
+
+/**
+ * Map a trait value onto 0-1 so categorical and continuous traits share one test
+ */
+function normalize(definition: TraitDefinition, value: TraitValue): number {
+  const { domain } = definition;
+  if (Array.isArray(domain)) {
+    return domain.length > 1 ? domain.indexOf(value) / (domain.length - 1) : 0;
+  }
+  const range = domain as { min: number; max: number };
+  return range.max > range.min ? ((value as number) - range.min) / (range.max - range.min) : 0;
+}
+
+function summarize(definition: TraitDefinition, values: TraitValue[]): DriftSummary {
+  const scores = values.map(v => normalize(definition, v));
+  const average = mean(scores);
+
+  let value: TraitValue;
+  if (Array.isArray(definition.domain)) {
+    const counts = new Map<TraitValue, number>();
+    values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+    value = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? definition.defaultValue;
+  } else {
+    value = mean(values as number[]);
+  }
+
+  return { value, mean: average, samples: values.length };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
@@ -8,370 +8,264 @@
 import { 
   UXGenome, 
   SignalCollection, 
-  ClickSignal, 
-  CursorSignal, 
-  ScrollSignal, 
-  HoverSignal,
-  MotionSensitivity,
-  InteractionSpeed,
-  LayoutDensity,
-  GuidanceNeed,
-  TraitMetadata,
-  LearningState
+  ContextProfile,
+  StoredTraitState,
+  TraitInference,
 } from '@/types/genome';
+import {
+  TraitDefinition,
+  TraitRegistry,
+  traitRegistry,
+  readTrait,
+  writeTrait,
+  wasTraitWritten,
+  readPosterior,
+  updatePosterior,
+  posteriorValue,
+  posteriorConfidence,
+  learningStateFor,
+} from '@/lib/traits';
+import { applyContextProfile } from '@/lib/context/profile';
+import { InferenceSources, SignalAggregates, SignalSource, sourcesFromSignals } from '@/lib/stats/aggregates';
+import {
+  calculateClickPrecision,
+  calculateCursorSmoothness,
+  inferScrollBehavior,
+  calculateAverageHoverDwell,
+} from './metrics';
+import { explainInference } from './explain';
 
-export class TraitInferenceEngine {
-  private readonly CONFIDENCE_THRESHOLD = 0.6; // Minimum confidence to update trait
-  private readonly MIN_SAMPLES = 10; // Minimum samples before making inferences
-  private readonly DECAY_FACTOR = 0.95; // How much recent behavior matters vs old
-
-  /**
-   * Infer all traits from recent signals
-   */
-  inferTraits(genome: UXGenome, signals: SignalCollection[]): Partial<UXGenome> {
-    const updates: Partial<UXGenome> = {};
-
-    // Group signals by type
-    const clicks = signals.filter(s => s.type === 'click') as ClickSignal[];
-    const cursors = signals.filter(s => s.type === 'cursor') as CursorSignal[];
-    const scrolls = signals.filter(s => s.type === 'scroll') as ScrollSignal[];
-    const hovers = signals.filter(s => s.type === 'hover') as HoverSignal[];
-
-    // Infer motion sensitivity
-    const motionSensitivity = this.inferMotionSensitivity(genome, scrolls, cursors, clicks);
-    if (motionSensitivity) {
-      updates.motionSensitivity = motionSensitivity.value;
-      updates.motionSensitivityMeta = motionSensitivity.meta;
-    }
-
-    // Infer interaction speed
-    const interactionSpeed = this.inferInteractionSpeed(genome, clicks, cursors, hovers);
-    if (interactionSpeed) {
-      updates.preferredInteractionSpeed = interactionSpeed.value;
-      updates.preferredInteractionSpeedMeta = interactionSpeed.meta;
-    }
-
-    // Infer layout density tolerance
-    const densityTolerance = this.inferDensityTolerance(genome, clicks, cursors);
-    if (densityTolerance) {
-      updates.layoutDensityTolerance = densityTolerance.value;
-      updates.layoutDensityToleranceMeta = densityTolerance.meta;
-    }
-
-    // Infer guidance need
-    const guidanceNeed = this.inferGuidanceNeed(genome, hovers, clicks);
-    if (guidanceNeed) {
-      updates.guidanceNeed = guidanceNeed.value;
-      updates.guidanceNeedMeta = guidanceNeed.meta;
-    }
+/**
+ * Source of the current time in ms. Injectable so recorded sessions can be
+ * replayed deterministically.
+ */
+export type Clock = () => number;
 
-    // Infer cognitive load threshold
-    const cognitiveLoad = this.inferCognitiveLoad(genome, signals);
-    if (cognitiveLoad !== null) {
-      updates.cognitiveLoadThreshold = cognitiveLoad.value;
-      updates.cognitiveLoadThresholdMeta = cognitiveLoad.meta;
-    }
+export interface TraitInferenceEngineOptions {
+  clock?: Clock;
+  registry?: TraitRegistry;
+}
 
-    // Update derived metrics
-    updates.clickPrecision = this.calculateClickPrecision(clicks);
-    updates.cursorSmoothness = this.calculateCursorSmoothness(cursors);
-    updates.scrollBehavior = this.inferScrollBehavior(scrolls);
-    updates.hoverDwellTime = this.calculateAverageHoverDwell(hovers);
+export class TraitInferenceEngine {
+  private readonly clock: Clock;
+  private readonly registry: TraitRegistry;
 
-    return updates;
+  constructor(options: TraitInferenceEngineOptions = {}) {
+    this.clock = options.clock ?? Date.now;
+    this.registry = options.registry ?? traitRegistry;
   }
 
   /**
-   * Motion Sensitivity: Based on animation interruptions, scroll reversals, cursor freezes
+   * Infer all registered traits from recent signals
    */
-  private inferMotionSensitivity(
-    genome: UXGenome,
-    scrolls: ScrollSignal[],
-    cursors: CursorSignal[],
-    clicks: ClickSignal[]
-  ): { value: MotionSensitivity; meta: TraitMetadata } | null {
-    if (scrolls.length < this.MIN_SAMPLES) return null;
-
-    // High reversal rate suggests motion sensitivity
-    const reversalRate = scrolls.filter(s => s.data.reversalCount > 2).length / scrolls.length;
-    
-    // Cursor freezes during movement (low velocity variance)
-    const cursorVariances = cursors.map(c => {
-      // Simplified: use jitter as proxy for freeze detection
-      return c.data.jitter;
-    });
-    const avgJitter = cursorVariances.length > 0
-      ? cursorVariances.reduce((a, b) => a + b, 0) / cursorVariances.length
-      : 0;
-    
-    // Click corrections during animations (simplified: use correction count)
-    const avgCorrections = clicks.length > 0
-      ? clicks.reduce((sum, c) => sum + c.data.correctionCount, 0) / clicks.length
-      : 0;
-
-    // Combine signals
-    const sensitivityScore = (reversalRate * 0.4) + (avgJitter > 10 ? 0.3 : 0) + (avgCorrections > 1 ? 0.3 : 0);
-    
-    let value: MotionSensitivity;
-    if (sensitivityScore > 0.6) value = 'high';
-    else if (sensitivityScore > 0.3) value = 'medium';
-    else value = 'low';
-
-    const confidence = Math.min(1, scrolls.length / 50); // More samples = higher confidence
-    
-    return {
-      value,
-      meta: this.updateTraitMetadata(genome.motionSensitivityMeta, confidence, value === genome.motionSensitivity),
-    };
+  inferTraits(genome: UXGenome, signals: SignalCollection[]): Partial<UXGenome> {
+    return this.inferWithEvidence(genome, signals).updates;
   }
 
   /**
-   * Interaction Speed: Based on click latency, cursor velocity, hover dwell time
+   * Infer all registered traits and explain every trait that was inferred
    */
-  private inferInteractionSpeed(
+  inferWithEvidence(
     genome: UXGenome,
-    clicks: ClickSignal[],
-    cursors: CursorSignal[],
-    hovers: HoverSignal[]
-  ): { value: InteractionSpeed; meta: TraitMetadata } | null {
-    if (clicks.length < this.MIN_SAMPLES) return null;
-
-    // Fast clickers have low time-to-click
-    const avgTimeToClick = clicks.length > 0
-      ? clicks.reduce((sum, c) => sum + c.data.timeToClick, 0) / clicks.length
-      : 500;
-    
-    // Fast movers have high cursor velocity
-    const avgCursorVelocity = cursors.length > 0
-      ? cursors.reduce((sum, c) => sum + c.data.velocity, 0) / cursors.length
-      : 0.5;
-    
-    // Fast users have short hover dwell
-    const avgHoverDwell = hovers.length > 0
-      ? hovers.reduce((sum, h) => sum + h.data.dwellTime, 0) / hovers.length
-      : 300;
-
-    // Normalize and combine
-    const speedScore = (
-      (avgTimeToClick < 200 ? 1 : avgTimeToClick < 400 ? 0.5 : 0) * 0.4 +
-      (avgCursorVelocity > 1 ? 1 : avgCursorVelocity > 0.5 ? 0.5 : 0) * 0.3 +
-      (avgHoverDwell < 200 ? 1 : avgHoverDwell < 400 ? 0.5 : 0) * 0.3
-    );
-
-    let value: InteractionSpeed;
-    if (speedScore > 0.7) value = 'fast';
-    else if (speedScore > 0.3) value = 'balanced';
-    else value = 'slow';
-
-    const confidence = Math.min(1, clicks.length / 30);
-    
-    return {
-      value,
-      meta: this.updateTraitMetadata(genome.preferredInteractionSpeedMeta, confidence, value === genome.preferredInteractionSpeed),
-    };
+    signals: SignalCollection[]
+  ): { updates: Partial<UXGenome>; inferences: TraitInference[] } {
+    return this.inferFromSources(genome, sourcesFromSignals(signals));
   }
 
   /**
-   * Layout Density Tolerance: Based on click precision, target size preferences
+   * Infer from streaming aggregates. Reads running summaries instead of
+   * re-scanning signals, and only revisits sub-profiles that saw new signals.
+   * Traits without summary-based inference see the last `windowMs` of signals.
    */
-  private inferDensityTolerance(
+  inferFromAggregates(
     genome: UXGenome,
-    clicks: ClickSignal[],
-    cursors: CursorSignal[]
-  ): { value: LayoutDensity; meta: TraitMetadata } | null {
-    if (clicks.length < this.MIN_SAMPLES) return null;
-
-    // Users who miss small targets prefer spacious layouts
-    const missRate = clicks.filter(c => c.data.missDistance && c.data.missDistance > 5).length / clicks.length;
-    
-    // Users who click large targets comfortably prefer compact
-    const avgTargetSize = clicks.length > 0
-      ? clicks.reduce((sum, c) => sum + c.data.targetSize, 0) / clicks.length
-      : 1000;
-    
-    // High precision = comfortable with compact
-    const precision = this.calculateClickPrecision(clicks);
-
-    const densityScore = (
-      (missRate > 0.3 ? 0 : missRate > 0.15 ? 0.5 : 1) * 0.4 +
-      (avgTargetSize < 500 ? 0 : avgTargetSize < 1000 ? 0.5 : 1) * 0.3 +
-      (precision > 0.8 ? 1 : precision > 0.6 ? 0.5 : 0) * 0.3
-    );
-
-    let value: LayoutDensity;
-    if (densityScore > 0.7) value = 'compact';
-    else if (densityScore > 0.3) value = 'standard';
-    else value = 'spacious';
-
-    const confidence = Math.min(1, clicks.length / 40);
-    
-    return {
-      value,
-      meta: this.updateTraitMetadata(genome.layoutDensityToleranceMeta, confidence, value === genome.layoutDensityTolerance),
-    };
+    aggregates: SignalAggregates,
+    windowMs: number
+  ): { updates: Partial<UXGenome>; inferences: TraitInference[] } {
+    return this.inferFromSources(genome, aggregates.takeSources(this.clock(), windowMs));
   }
 
-  /**
-   * Guidance Need: Based on hover dwell, exploration patterns
-   */
-  private inferGuidanceNeed(
+  private inferFromSources(
     genome: UXGenome,
-    hovers: HoverSignal[],
-    clicks: ClickSignal[]
-  ): { value: GuidanceNeed; meta: TraitMetadata } | null {
-    if (hovers.length < this.MIN_SAMPLES) return null;
-
-    // Long hovers suggest need for guidance/tooltips
-    const avgDwell = hovers.length > 0
-      ? hovers.reduce((sum, h) => sum + h.data.dwellTime, 0) / hovers.length
-      : 300;
-    
-    // High correction rate suggests need for clearer guidance
-    const correctionRate = clicks.length > 0
-      ? clicks.reduce((sum, c) => sum + c.data.correctionCount, 0) / clicks.length
-      : 0;
-
-    const guidanceScore = (
-      (avgDwell > 500 ? 1 : avgDwell > 300 ? 0.5 : 0) * 0.6 +
-      (correctionRate > 1 ? 1 : correctionRate > 0.5 ? 0.5 : 0) * 0.4
-    );
-
-    let value: GuidanceNeed;
-    if (guidanceScore > 0.6) value = 'strong';
-    else if (guidanceScore > 0.3) value = 'contextual';
-    else value = 'minimal';
-
-    const confidence = Math.min(1, hovers.length / 30);
-    
-    return {
-      value,
-      meta: this.updateTraitMetadata(genome.guidanceNeedMeta, confidence, value === genome.guidanceNeed),
-    };
+    sources: InferenceSources
+  ): { updates: Partial<UXGenome>; inferences: TraitInference[] } {
+    const inferences: TraitInference[] = [];
+    const updates = this.inferRegisteredTraits(genome, sources.global, inferences);
+
+    // Learn per time-of-day / day-of-week sub-profiles
+    const contextProfiles = this.inferContextProfiles(genome, sources.contexts);
+    if (contextProfiles) {
+      updates.contextProfiles = contextProfiles;
+    }
+
+    // Learn per device class / pointer type partitions
+    const devicePartitions = this.inferDevicePartitions(genome, sources.partitions);
+    if (devicePartitions) {
+      updates.devicePartitions = devicePartitions;
+    }
+
+    // Update derived metrics
+    const { summary } = sources.global;
+    updates.clickPrecision = calculateClickPrecision(summary);
+    updates.cursorSmoothness = calculateCursorSmoothness(summary);
+    updates.scrollBehavior = inferScrollBehavior(summary);
+    updates.hoverDwellTime = calculateAverageHoverDwell(summary);
+
+    return { updates, inferences };
   }
 
   /**
-   * Cognitive Load: Detects overload from rapid switching, jitter, abandonment
+   * Run every registered trait's inference over a signal source
    */
-  private inferCognitiveLoad(
+  private inferRegisteredTraits(
     genome: UXGenome,
-    signals: SignalCollection[]
-  ): { value: number; meta: TraitMetadata } | null {
-    if (signals.length < this.MIN_SAMPLES) return null;
-
-    // Rapid tab switching (focus changes)
-    const focusSignals = signals.filter(s => s.type === 'focus') as any[];
-    const rapidFocusChanges = focusSignals.filter((s, i) => {
-      if (i === 0) return false;
-      return s.timestamp - focusSignals[i - 1].timestamp < 500;
-    }).length;
-    
-    // High jitter (stress indicator)
-    const cursorSignals = signals.filter(s => s.type === 'cursor') as CursorSignal[];
-    const avgJitter = cursorSignals.length > 0
-      ? cursorSignals.reduce((sum, c) => sum + c.data.jitter, 0) / cursorSignals.length
-      : 0;
-    
-    // Scroll oscillation (indecision)
-    const scrollSignals = signals.filter(s => s.type === 'scroll') as ScrollSignal[];
-    const oscillationRate = scrollSignals.filter(s => s.data.reversalCount > 1).length / Math.max(1, scrollSignals.length);
-
-    // Combine into load score (0-1)
-    const loadScore = Math.min(1, (
-      (rapidFocusChanges / Math.max(1, focusSignals.length)) * 0.4 +
-      (Math.min(1, avgJitter / 20)) * 0.3 +
-      oscillationRate * 0.3
-    ));
-
-    const confidence = Math.min(1, signals.length / 100);
-    
-    return {
-      value: loadScore,
-      meta: this.updateTraitMetadata(genome.cognitiveLoadThresholdMeta, confidence, Math.abs(loadScore - genome.cognitiveLoadThreshold) < 0.2),
-    };
-  }
+    source: SignalSource,
+    inferences?: TraitInference[]
+  ): Partial<UXGenome> {
+    const updates: Partial<UXGenome> = {};
 
-  /**
-   * Calculate click precision (0-1)
-   */
-  private calculateClickPrecision(clicks: ClickSignal[]): number {
-    if (clicks.length === 0) return 0.5;
-    
-    const misses = clicks.filter(c => c.data.missDistance && c.data.missDistance > 0).length;
-    const precision = 1 - (misses / clicks.length);
-    return Math.max(0, Math.min(1, precision));
-  }
+    this.registry.list().forEach((definition) => {
+      const current = readTrait(genome, definition);
+      if (current.meta.state === 'locked') return;
+
+      const result = definition.inferFromSummary
+        ? definition.inferFromSummary(source.summary, genome)
+        : definition.infer(source.getSignals(), genome);
+      if (!result) return;
+
+      // Bayesian update of the trait's belief with this window; the value and
+      // confidence are read off the posterior rather than this pass alone
+      const now = this.clock();
+      const posterior = updatePosterior(definition, readPosterior(definition, current, now), result, result.confidence, now);
+      const value = posteriorValue(definition, posterior, current.value);
+      const confidence = posteriorConfidence(definition, posterior, value);
+      const sampleCount = current.meta.sampleCount + 1;
+      const meta = {
+        ...current.meta,
+        confidence,
+        lastUpdated: now,
+        sampleCount,
+        state: learningStateFor(confidence, sampleCount),
+        posterior,
+      };
 
-  /**
-   * Calculate cursor smoothness (0-1)
-   */
-  private calculateCursorSmoothness(cursors: CursorSignal[]): number {
-    if (cursors.length === 0) return 0.5;
-    
-    const avgJitter = cursors.reduce((sum, c) => sum + c.data.jitter, 0) / cursors.length;
-    // Lower jitter = higher smoothness
-    const smoothness = 1 - Math.min(1, avgJitter / 15);
-    return Math.max(0, Math.min(1, smoothness));
-  }
+      const isStable = definition.isStable
+        ? definition.isStable(value, current.value)
+        : value === current.value;
+
+      writeTrait(updates, genome, definition, { value, meta });
+
+      inferences?.push({
+        trait: definition.key,
+        timestamp: now,
+        value,
+        previousValue: current.value,
+        passValue: result.value,
+        passConfidence: result.confidence,
+        confidence: meta.confidence,
+        confidenceDelta: meta.confidence - current.meta.confidence,
+        evidence: result.evidence,
+        reasoning: explainInference(definition, {
+          value,
+          passValue: result.value,
+          posterior,
+          previousValue: current.value,
+          confidence: meta.confidence,
+          previousConfidence: current.meta.confidence,
+          agrees: isStable,
+          evidence: result.evidence,
+        }),
+      });
+    });
 
-  /**
-   * Infer scroll behavior pattern
-   */
-  private inferScrollBehavior(scrolls: ScrollSignal[]): 'continuous' | 'burst' | 'mixed' {
-    if (scrolls.length < 5) return 'mixed';
-    
-    const timeBetweenScrolls = scrolls.slice(1).map((s, i) => 
-      s.timestamp - scrolls[i].timestamp
-    );
-    const avgTimeBetween = timeBetweenScrolls.reduce((a, b) => a + b, 0) / timeBetweenScrolls.length;
-    
-    if (avgTimeBetween < 100) return 'continuous';
-    if (avgTimeBetween > 1000) return 'burst';
-    return 'mixed';
+    return updates;
   }
 
   /**
-   * Calculate average hover dwell time
+   * Infer traits separately for each temporal context the signals fall into
    */
-  private calculateAverageHoverDwell(hovers: HoverSignal[]): number {
-    if (hovers.length === 0) return 300;
-    return hovers.reduce((sum, h) => sum + h.data.dwellTime, 0) / hovers.length;
+  private inferContextProfiles(
+    genome: UXGenome,
+    contexts: InferenceSources['contexts']
+  ): UXGenome['contextProfiles'] | null {
+    const now = this.clock();
+    const profiles = { ...genome.contextProfiles };
+    let changed = false;
+
+    contexts.forEach((source, key) => {
+      const profile = this.inferProfile(genome, profiles[key], source, now, () => true);
+      if (!profile) return;
+
+      profiles[key] = profile;
+      changed = true;
+    });
+
+    return changed ? profiles : null;
   }
 
   /**
-   * Update trait metadata with confidence-weighted learning
+   * Infer traits separately for each device class / pointer type partition
    */
-  private updateTraitMetadata(
-    currentMeta: TraitMetadata,
-    newConfidence: number,
-    isStable: boolean
-  ): TraitMetadata {
-    // Only update if confidence is high enough
-    if (newConfidence < this.CONFIDENCE_THRESHOLD && currentMeta.sampleCount > 0) {
-      return {
-        ...currentMeta,
-        // Slight decay in confidence if no strong signal
-        confidence: currentMeta.confidence * this.DECAY_FACTOR,
+  private inferDevicePartitions(
+    genome: UXGenome,
+    sources: InferenceSources['partitions']
+  ): UXGenome['devicePartitions'] | null {
+    const now = this.clock();
+    const partitions = { ...genome.devicePartitions };
+    let changed = false;
+
+    sources.forEach((source, key) => {
+      const previous = partitions[key];
+      const profile = this.inferProfile(genome, previous, source, now, definition => !definition.pooled);
+      const hits = source.summary.metric('hit.missed').count;
+      const cursors = source.summary.count('cursor');
+      if (!profile && hits === 0 && cursors === 0) return;
+
+      const device = source.device!;
+      partitions[key] = {
+        traits: profile?.traits ?? previous?.traits ?? {},
+        sampleCount: profile?.sampleCount ?? previous?.sampleCount ?? 0,
+        lastUpdated: now,
+        deviceType: device.deviceType,
+        pointerType: device.pointerType,
+        clickPrecision: hits > 0 ? calculateClickPrecision(source.summary) : previous?.clickPrecision ?? 0.5,
+        cursorSmoothness: cursors > 0 ? calculateCursorSmoothness(source.summary) : previous?.cursorSmoothness ?? 0.5,
       };
-    }
+      changed = true;
+    });
 
-    // Confidence-weighted update
-    const updatedConfidence = isStable
-      ? Math.min(1, currentMeta.confidence + (newConfidence * 0.1))
-      : Math.max(0, currentMeta.confidence - (newConfidence * 0.1));
+    return changed ? partitions : null;
+  }
 
-    // Determine state
-    let state: LearningState = currentMeta.state;
-    if (updatedConfidence > 0.8) state = 'confident';
-    else if (updatedConfidence > 0.5) state = 'tentative';
-    else if (currentMeta.sampleCount < this.MIN_SAMPLES) state = 'observing';
-    else state = currentMeta.state;
+  /**
+   * Run inference inside one sub-profile and return its updated state, or
+   * null if no trait could be inferred from the signals
+   */
+  private inferProfile(
+    genome: UXGenome,
+    previous: ContextProfile | undefined,
+    source: SignalSource,
+    now: number,
+    include: (definition: TraitDefinition) => boolean
+  ): ContextProfile | null {
+    const view = applyContextProfile(genome, previous, now, this.registry);
+    const profileUpdates = this.inferRegisteredTraits(view, source);
+    const next = { ...view, ...profileUpdates };
+
+    const traits: Record<string, StoredTraitState> = { ...previous?.traits };
+    let inferred = false;
+    this.registry.list().forEach((definition) => {
+      if (!include(definition)) return;
+      if (!wasTraitWritten(view, profileUpdates, definition)) return;
+      traits[definition.key] = readTrait(next, definition);
+      inferred = true;
+    });
+    if (!inferred) return null;
 
     return {
-      confidence: updatedConfidence,
-      lastUpdated: Date.now(),
-      sampleCount: currentMeta.sampleCount + 1,
-      state,
+      traits,
+      sampleCount: (previous?.sampleCount ?? 0) + 1,
+      lastUpdated: now,
     };
   }
 }
-
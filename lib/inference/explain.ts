@@ -0,0 +1,104 @@
+/**
+ * Inference Explanations
+ *
+ * Renders the structured evidence of an inference pass as plain-language
+ * sentences, e.g. for answering "why did the UI get bigger?".
+ */
+
+import { EvidenceFactor, TraitEvidence, TraitPosterior } from '@/types/genome';
+import { TraitDefinition, TraitValue, credibleInterval } from '@/lib/traits';
+
+export function formatFactorInput(factor: EvidenceFactor): string {
+  switch (factor.unit) {
+    case 'ratio':
+      return `${Math.round(factor.input * 100)}%`;
+    case 'ms':
+      return `${Math.round(factor.input)}ms`;
+    case 'px':
+      return `${Math.round(factor.input)}px`;
+    case 'px/ms':
+      return `${factor.input.toFixed(2)}px/ms`;
+    case 'count':
+      return `${Math.round(factor.input)}`;
+    default:
+      return factor.input.toFixed(2);
+  }
+}
+
+export interface InferenceOutcome {
+  value: TraitValue;
+  passValue?: TraitValue; // what this pass alone classified, when the value comes from the posterior
+  posterior?: TraitPosterior; // belief after the pass
+  previousValue: TraitValue;
+  confidence: number;
+  previousConfidence: number;
+  agrees: boolean; // the pass agreed with the previous value
+  evidence?: TraitEvidence;
+}
+
+/**
+ * Explain one inference pass
+ */
+export function explainInference(definition: TraitDefinition, outcome: InferenceOutcome): string[] {
+  const { value, previousValue, confidence, previousConfidence, agrees, evidence, posterior } = outcome;
+  const passValue = outcome.passValue ?? value;
+  const describe = (v: TraitValue) => definition.describe
+    ? definition.describe(v)
+    : typeof v === 'number' ? v.toFixed(2) : String(v);
+  const reasoning: string[] = [];
+
+  if (evidence) {
+    const samples = Object.entries(evidence.samples)
+      .filter(([, count]) => count > 0)
+      .map(([name, count]) => `${count} ${name}`);
+    if (samples.length > 0) {
+      reasoning.push(`Based on ${joinList(samples)} from the last few seconds.`);
+    }
+
+    evidence.factors.forEach((factor) => {
+      const contribution = factor.subScore * factor.weight;
+      const effect = factor.weight < 0
+        ? `lowers the score by ${Math.abs(contribution).toFixed(2)}`
+        : `adds ${contribution.toFixed(2)} of a possible ${factor.weight.toFixed(2)}`;
+      reasoning.push(`${factor.label} was ${formatFactorInput(factor)}, which ${effect}.`);
+    });
+
+    const crossed = evidence.thresholds.find(threshold => threshold.crossed);
+    const lowest = evidence.thresholds[evidence.thresholds.length - 1];
+    if (crossed) {
+      reasoning.push(`The combined score of ${evidence.score.toFixed(2)} is above ${crossed.value}, so the result is "${describe(passValue)}".`);
+    } else if (lowest) {
+      reasoning.push(`The combined score of ${evidence.score.toFixed(2)} is below ${lowest.value}, so the result is "${describe(passValue)}".`);
+    } else {
+      reasoning.push(`The combined score is ${evidence.score.toFixed(2)}.`);
+    }
+  }
+
+  if (posterior?.kind === 'gaussian') {
+    const [low, high] = credibleInterval(posterior);
+    reasoning.push(`With earlier evidence the score is most likely ${posterior.mean.toFixed(2)} (90% between ${low.toFixed(2)} and ${high.toFixed(2)}), so the profile is "${describe(value)}".`);
+  } else if (posterior && passValue !== value) {
+    reasoning.push(`Earlier evidence still favors "${describe(value)}".`);
+  }
+
+  if (value !== previousValue) {
+    reasoning.push(`This changed the profile from "${describe(previousValue)}" to "${describe(value)}".`);
+  }
+
+  const before = Math.round(previousConfidence * 100);
+  const after = Math.round(confidence * 100);
+  if (after > before) {
+    reasoning.push(`Confidence rose from ${before}% to ${after}% because this agrees with what was learned before.`);
+  } else if (after < before) {
+    reasoning.push(agrees
+      ? `Confidence eased from ${before}% to ${after}% because there was too little activity to be sure.`
+      : `Confidence fell from ${before}% to ${after}% because this differs from what was learned before.`);
+  }
+
+  return reasoning;
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
@@ -0,0 +1,53 @@
+/**
+ * Derived Metrics
+ *
+ * Pure signal statistics shared by the inference engine and trait definitions,
+ * read from a signal summary so they cost the same for any window size.
+ */
+
+import { SignalSummary } from '@/lib/stats/summary';
+
+/**
+ * Calculate click precision (0-1) from mouse clicks and touch taps
+ */
+export function calculateClickPrecision(summary: SignalSummary): number {
+  const hits = summary.metric('hit.missed');
+  if (hits.count === 0) return 0.5;
+
+  const precision = 1 - hits.mean;
+  return Math.max(0, Math.min(1, precision));
+}
+
+/**
+ * Calculate cursor smoothness (0-1)
+ */
+export function calculateCursorSmoothness(summary: SignalSummary): number {
+  const jitter = summary.metric('cursor.jitter');
+  if (jitter.count === 0) return 0.5;
+
+  // Lower jitter = higher smoothness
+  const smoothness = 1 - Math.min(1, jitter.mean / 15);
+  return Math.max(0, Math.min(1, smoothness));
+}
+
+/**
+ * Infer scroll behavior pattern
+ */
+export function inferScrollBehavior(summary: SignalSummary): 'continuous' | 'burst' | 'mixed' {
+  if (summary.count('scroll') < 5) return 'mixed';
+
+  const avgTimeBetween = summary.metric('scroll.interval').mean;
+
+  if (avgTimeBetween < 100) return 'continuous';
+  if (avgTimeBetween > 1000) return 'burst';
+  return 'mixed';
+}
+
+/**
+ * Calculate average hover dwell time
+ */
+export function calculateAverageHoverDwell(summary: SignalSummary): number {
+  const dwell = summary.metric('hover.dwellTime');
+  if (dwell.count === 0) return 300;
+  return dwell.mean;
+}
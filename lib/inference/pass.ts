@@ -0,0 +1,56 @@
+/**
+ * Inference Pass
+ *
+ * Everything that happens to an inference result before it reaches the
+ * genome: drift detection, experiment feedback and outcome judgement.
+ * GenomeProvider and the replay runner both complete their passes here, so
+ * a replay reproduces the provider's updates.
+ */
+
+import { UXGenome } from '@/types/genome';
+import { AdaptationExperiments } from '@/lib/adaptation/experiment';
+import { OutcomeTracker, AdaptationOutcome } from '@/lib/adaptation/outcomes';
+import { InferenceResult } from '@/lib/pipeline/protocol';
+import { DriftDetector, DriftEvent } from './drift';
+
+export interface PassStages {
+  drift: DriftDetector;
+  experiments?: AdaptationExperiments | null;
+  outcomes?: OutcomeTracker | null;
+}
+
+export interface CompletedPass {
+  updates: Partial<UXGenome>; // inferred, drift and experiment updates, to merge into the genome
+  driftEvents: DriftEvent[];
+  outcome: AdaptationOutcome | null; // the last adaptation change, if it was judged
+  reapply: boolean; // rules must be regenerated even without updates (arm switched, change rolled back)
+}
+
+/**
+ * Complete an inference pass over `genome`, the genome as it is now (it
+ * may have changed while the pipeline was inferring)
+ */
+export function completePass(genome: UXGenome, result: InferenceResult, stages: PassStages): CompletedPass {
+  const { drift, experiments, outcomes } = stages;
+  const updates = { ...result.updates };
+
+  // Behavior changed: send drifted traits back to tentative
+  const driftEvents = drift.observe(result.inferences);
+  if (driftEvents.length > 0) {
+    Object.assign(updates, drift.applyDrift({ ...genome, ...updates }, driftEvents));
+  }
+
+  // Score the variant being tested; a verdict feeds back into confidence
+  let reapply = false;
+  if (experiments) {
+    const step = experiments.step({ ...genome, ...updates }, Object.keys(outcomes?.getOverrides() ?? {}));
+    Object.assign(updates, step.updates);
+    reapply = step.switched;
+  }
+
+  // Judge the last adaptation change; a harmful one is served no more
+  const outcome = outcomes?.judge() ?? null;
+  if (outcome?.rolledBack) reapply = true;
+
+  return { updates, driftEvents, outcome, reapply };
+}
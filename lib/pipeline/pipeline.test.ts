@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CursorSignal, SignalDeviceContext } from '@/types/genome';
+import { DEFAULT_GENOME } from '@/store/genomeStore';
+import { SyncSignalPipeline } from './pipeline';
+import { SignalProcessor } from './processor';
+
+const NOW = 1_700_000_000_000;
+const MOUSE: SignalDeviceContext = { deviceType: 'desktop', pointerType: 'mouse' };
+
+// ~60 Hz mouse movement
+function moveCursor(pipeline: SyncSignalPipeline, from: number, count: number) {
+  for (let i = from; i < from + count; i++) {
+    pipeline.pushCursor({ x: i * 3, y: i * 2, timestamp: NOW + i * 16 }, MOUSE);
+  }
+}
+
+test('cursor signals stay in the pipeline unless someone listens', () => {
+  const pipeline = new SyncSignalPipeline();
+  const batches: CursorSignal[][] = [];
+
+  moveCursor(pipeline, 0, 100);
+  const unsubscribe = pipeline.onCursorSignals(signals => batches.push(signals));
+  moveCursor(pipeline, 100, 200);
+  unsubscribe();
+  moveCursor(pipeline, 300, 100);
+
+  // 200 samples over 3.2s arrive as one batch per second, not one message each
+  assert.equal(batches.length, 3);
+  assert.ok(batches.flat().every(signal => signal.timestamp >= NOW + 100 * 16 && signal.timestamp < NOW + 300 * 16));
+});
+
+test('inference runs at the time the caller passes', () => {
+  const infer = () => {
+    const processor = new SignalProcessor();
+    for (let i = 0; i < 30; i++) {
+      processor.addSignal({ type: 'click', timestamp: NOW + i * 500, data: { targetSize: 1600, correctionCount: 0, timeToClick: 300 } });
+    }
+    return processor.infer(DEFAULT_GENOME, 30000, NOW + 20000);
+  };
+
+  const first = infer();
+  assert.ok(first.inferences.length > 0);
+  assert.ok(first.inferences.every(inference => inference.timestamp === NOW + 20000));
+  assert.deepEqual(infer(), first);
+});
@@ -0,0 +1,166 @@
+/**
+ * Signal Pipeline
+ *
+ * Where captured signals are buffered and traits are inferred. The worker
+ * pipeline keeps that work off the main thread; the sync pipeline does the
+ * same work in-thread when workers are unavailable.
+ */
+
+import { UXGenome, SignalCollection, CursorSignal, SignalDeviceContext } from '@/types/genome';
+import { RawCursorSample } from '@/lib/signals/cursor';
+import { TraitRegistry, traitRegistry } from '@/lib/traits';
+import { SignalProcessor } from './processor';
+import { InferenceResult, PipelineRequest, PipelineResponse } from './protocol';
+
+export interface SignalPipeline {
+  readonly offloaded: boolean; // work runs in a worker
+  push(signal: SignalCollection): void;
+  pushCursor(sample: RawCursorSample, device: SignalDeviceContext): void;
+  onCursorSignals(listener: (signals: CursorSignal[]) => void): () => void; // batches of cursor signals derived from raw samples, about once a second
+  infer(genome: UXGenome, windowMs: number): Promise<InferenceResult>;
+  reset(): void;
+  dispose(): void;
+}
+
+export class SyncSignalPipeline implements SignalPipeline {
+  readonly offloaded = false;
+  private processor: SignalProcessor;
+  private cursorListeners: ((signals: CursorSignal[]) => void)[] = [];
+
+  constructor(registry?: TraitRegistry) {
+    this.processor = new SignalProcessor(registry);
+  }
+
+  push(signal: SignalCollection) {
+    this.processor.addSignal(signal);
+  }
+
+  pushCursor(sample: RawCursorSample, device: SignalDeviceContext) {
+    const signals = this.processor.addCursorSample(sample, device);
+    if (signals) this.deliverCursor(signals);
+  }
+
+  onCursorSignals(listener: (signals: CursorSignal[]) => void) {
+    this.cursorListeners.push(listener);
+    this.processor.setCursorFeed(true);
+    return () => {
+      this.cursorListeners = this.cursorListeners.filter(l => l !== listener);
+      this.processor.setCursorFeed(this.cursorListeners.length > 0);
+    };
+  }
+
+  infer(genome: UXGenome, windowMs: number): Promise<InferenceResult> {
+    const signals = this.processor.takeCursorBatch();
+    if (signals) this.deliverCursor(signals);
+    try {
+      return Promise.resolve(this.processor.infer(genome, windowMs, Date.now()));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  reset() {
+    this.processor.reset();
+  }
+
+  dispose() {
+    this.reset();
+    this.cursorListeners = [];
+    this.processor.setCursorFeed(false);
+  }
+
+  private deliverCursor(signals: CursorSignal[]) {
+    this.cursorListeners.forEach(listener => listener(signals));
+  }
+}
+
+export class WorkerSignalPipeline implements SignalPipeline {
+  readonly offloaded = true;
+  private cursorListeners: ((signals: CursorSignal[]) => void)[] = [];
+  private pending = new Map<number, { resolve: (result: InferenceResult) => void; reject: (error: Error) => void }>();
+  private nextRequestId = 1;
+
+  constructor(private worker: Worker) {
+    this.worker.addEventListener('message', (event: MessageEvent<PipelineResponse>) => this.receive(event.data));
+    this.worker.addEventListener('error', () => {
+      this.pending.forEach(({ reject }) => reject(new Error('Signal worker failed')));
+      this.pending.clear();
+    });
+  }
+
+  push(signal: SignalCollection) {
+    this.post({ type: 'signal', signal });
+  }
+
+  pushCursor(sample: RawCursorSample, device: SignalDeviceContext) {
+    this.post({ type: 'cursor', sample, device });
+  }
+
+  onCursorSignals(listener: (signals: CursorSignal[]) => void) {
+    this.cursorListeners.push(listener);
+    if (this.cursorListeners.length === 1) this.post({ type: 'cursorFeed', enabled: true });
+    return () => {
+      const listening = this.cursorListeners.length > 0;
+      this.cursorListeners = this.cursorListeners.filter(l => l !== listener);
+      if (listening && this.cursorListeners.length === 0) this.post({ type: 'cursorFeed', enabled: false });
+    };
+  }
+
+  infer(genome: UXGenome, windowMs: number): Promise<InferenceResult> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      this.post({ type: 'infer', requestId, genome, windowMs, now: Date.now() });
+    });
+  }
+
+  reset() {
+    this.post({ type: 'reset' });
+  }
+
+  dispose() {
+    this.worker.terminate();
+    this.pending.forEach(({ reject }) => reject(new Error('Signal pipeline disposed')));
+    this.pending.clear();
+    this.cursorListeners = [];
+  }
+
+  private post(request: PipelineRequest) {
+    this.worker.postMessage(request);
+  }
+
+  private receive(response: PipelineResponse) {
+    if (response.type === 'cursor') {
+      this.cursorListeners.forEach(listener => listener(response.signals));
+      return;
+    }
+
+    const request = this.pending.get(response.requestId);
+    if (!request) return;
+    this.pending.delete(response.requestId);
+
+    if (response.type === 'inferred') {
+      request.resolve(response.result);
+    } else {
+      request.reject(new Error(response.message));
+    }
+  }
+}
+
+/**
+ * Worker pipeline when possible, otherwise the synchronous fallback.
+ * Custom traits can't cross into the worker, so registering any keeps inference on the main thread.
+ */
+export function createSignalPipeline(registry: TraitRegistry = traitRegistry): SignalPipeline {
+  const onlyBuiltins = registry.list().every(definition => definition.builtin);
+
+  if (typeof Worker !== 'undefined' && onlyBuiltins) {
+    try {
+      return new WorkerSignalPipeline(new Worker(new URL('./signal.worker.ts', import.meta.url)));
+    } catch {
+      // Workers blocked (e.g. by CSP): fall through to the main thread
+    }
+  }
+
+  return new SyncSignalPipeline(registry);
+}
@@ -0,0 +1,84 @@
+/**
+ * Signal Processor
+ *
+ * Aggregates signals, derives cursor metrics and runs trait inference. Runs in
+ * the signal worker, or on the main thread when workers are unavailable.
+ * Inference runs at the time the caller passes, so results are reproducible.
+ */
+
+import { UXGenome, SignalCollection, CursorSignal, SignalDeviceContext } from '@/types/genome';
+import { TraitInferenceEngine } from '@/lib/inference/engine';
+import { CursorTracker, RawCursorSample } from '@/lib/signals/cursor';
+import { SignalAggregates } from '@/lib/stats/aggregates';
+import { TraitRegistry } from '@/lib/traits';
+import { InferenceResult } from './protocol';
+
+const CURSOR_BATCH_MS = 1000; // derived cursor signals leave the processor at most once per interval
+
+export class SignalProcessor {
+  private aggregates = new SignalAggregates();
+  private cursor = new CursorTracker();
+  private engine: TraitInferenceEngine;
+  private now = 0; // time of the inference pass, from the caller
+  private cursorFeed = false;
+  private cursorBatch: CursorSignal[] = [];
+
+  constructor(registry?: TraitRegistry) {
+    this.engine = new TraitInferenceEngine({ registry, clock: () => this.now });
+  }
+
+  addSignal(signal: SignalCollection) {
+    this.aggregates.observe(signal);
+  }
+
+  /**
+   * Derive a cursor signal from a raw sample. While the cursor feed is on,
+   * returns a batch of derived signals once a batch interval has passed.
+   */
+  addCursorSample(sample: RawCursorSample, device: SignalDeviceContext): CursorSignal[] | null {
+    const signal = this.cursor.track(sample);
+    signal.device = device;
+    this.addSignal(signal);
+
+    if (!this.cursorFeed) return null;
+    this.cursorBatch.push(signal);
+    return signal.timestamp - this.cursorBatch[0].timestamp >= CURSOR_BATCH_MS ? this.takeCursorBatch() : null;
+  }
+
+  /**
+   * Whether derived cursor signals are collected for the main thread
+   * (only needed while something records or displays them)
+   */
+  setCursorFeed(enabled: boolean) {
+    this.cursorFeed = enabled;
+    if (!enabled) this.cursorBatch = [];
+  }
+
+  /**
+   * Cursor signals derived since the last batch, if any
+   */
+  takeCursorBatch(): CursorSignal[] | null {
+    if (this.cursorBatch.length === 0) return null;
+    const batch = this.cursorBatch;
+    this.cursorBatch = [];
+    return batch;
+  }
+
+  getRecentSignals(windowMs: number, now: number): SignalCollection[] {
+    return this.aggregates.getRecentSignals(windowMs, now);
+  }
+
+  infer(genome: UXGenome, windowMs: number, now: number): InferenceResult {
+    this.now = now;
+    if (!this.aggregates.hasRecentSignals(windowMs, now)) {
+      return { updates: {}, inferences: [] };
+    }
+    return this.engine.inferFromAggregates(genome, this.aggregates, windowMs);
+  }
+
+  reset() {
+    this.aggregates.reset();
+    this.cursor.reset();
+    this.cursorBatch = [];
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Signal Pipeline Protocol
+ *
+ * Messages exchanged between the main thread and the signal worker.
+ */
+
+import { UXGenome, SignalCollection, CursorSignal, SignalDeviceContext, TraitInference } from '@/types/genome';
+import { RawCursorSample } from '@/lib/signals/cursor';
+
+export interface InferenceResult {
+  updates: Partial<UXGenome>;
+  inferences: TraitInference[];
+}
+
+// Main thread → worker
+export type PipelineRequest =
+  | { type: 'signal'; signal: SignalCollection }
+  | { type: 'cursor'; sample: RawCursorSample; device: SignalDeviceContext }
+  | { type: 'cursorFeed'; enabled: boolean } // send derived cursor signals back, batched
+  | { type: 'infer'; requestId: number; genome: UXGenome; windowMs: number; now: number }
+  | { type: 'reset' };
+
+// Worker → main thread
+export type PipelineResponse =
+  | { type: 'cursor'; signals: CursorSignal[] }
+  | { type: 'inferred'; requestId: number; result: InferenceResult }
+  | { type: 'error'; requestId: number; message: string };
@@ -0,0 +1,49 @@
+/**
+ * Signal Worker
+ *
+ * Worker entry point: keeps the signal buffer, derives cursor metrics and
+ * runs inference off the main thread. Only built-in traits are available here.
+ */
+
+import { SignalProcessor } from './processor';
+import { PipelineRequest, PipelineResponse } from './protocol';
+
+const processor = new SignalProcessor();
+const post = (response: PipelineResponse) => (self as unknown as Worker).postMessage(response);
+
+self.addEventListener('message', (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'signal':
+      processor.addSignal(request.signal);
+      break;
+    case 'cursor': {
+      // Cursor signals stay here unless the main thread asked for them, and then only in batches
+      const signals = processor.addCursorSample(request.sample, request.device);
+      if (signals) post({ type: 'cursor', signals });
+      break;
+    }
+    case 'cursorFeed':
+      processor.setCursorFeed(request.enabled);
+      break;
+    case 'infer': {
+      // Listeners see every cursor signal the pass was based on
+      const signals = processor.takeCursorBatch();
+      if (signals) post({ type: 'cursor', signals });
+      try {
+        post({
+          type: 'inferred',
+          requestId: request.requestId,
+          result: processor.infer(request.genome, request.windowMs, request.now),
+        });
+      } catch (error) {
+        post({ type: 'error', requestId: request.requestId, message: (error as Error).message });
+      }
+      break;
+    }
+    case 'reset':
+      processor.reset();
+      break;
+  }
+});
@@ -0,0 +1,73 @@
+/**
+ * Signal Recorder
+ *
+ * Records the live signal stream from SignalCapture so a session can be
+ * exported as NDJSON and replayed offline.
+ */
+
+import { UXGenome, SignalCollection } from '@/types/genome';
+import { SignalCapture } from '@/lib/signals/capture';
+import { RecordedSession, SESSION_FORMAT, SESSION_VERSION, serializeSession } from './session';
+
+export class SignalRecorder {
+  private signals: SignalCollection[] = [];
+  private recordedAt = 0;
+  private initialGenome?: UXGenome;
+  private unsubscribe: (() => void) | null = null;
+  private unsubscribeCursor: (() => void) | null = null;
+
+  constructor(private capture: SignalCapture) {}
+
+  /**
+   * Start recording. Pass the current genome so replay starts from the same state.
+   */
+  start(genome?: UXGenome) {
+    if (this.unsubscribe) return;
+
+    this.signals = [];
+    this.recordedAt = Date.now();
+    this.initialGenome = genome ? cloneGenome(genome) : undefined;
+    this.unsubscribe = this.capture.subscribe((signal) => {
+      this.signals.push(signal);
+    });
+    // Cursor signals come from the pipeline in batches, so they arrive late
+    this.unsubscribeCursor = this.capture.subscribeCursor((signals) => {
+      this.signals.push(...signals);
+    });
+  }
+
+  stop() {
+    this.unsubscribe?.();
+    this.unsubscribeCursor?.();
+    this.unsubscribe = null;
+    this.unsubscribeCursor = null;
+  }
+
+  isRecording(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  getSession(label?: string): RecordedSession {
+    return {
+      header: {
+        format: SESSION_FORMAT,
+        version: SESSION_VERSION,
+        recordedAt: this.recordedAt,
+        genome: this.initialGenome,
+        label,
+      },
+      signals: [...this.signals].sort((a, b) => a.timestamp - b.timestamp),
+    };
+  }
+
+  /**
+   * Export the recording as an NDJSON session file
+   */
+  toNDJSON(label?: string): string {
+    return serializeSession(this.getSession(label));
+  }
+}
+
+function cloneGenome(genome: UXGenome): UXGenome {
+  return JSON.parse(JSON.stringify(genome));
+}
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { SignalCollection } from '@/types/genome';
+import { DEFAULT_GENOME } from '@/store/genomeStore';
+import { RecordedSession, SESSION_FORMAT, SESSION_VERSION, parseSession, serializeSession } from './session';
+import { replaySession } from './runner';
+
+const RECORDED_AT = 1_700_000_000_000;
+
+function clicks(count: number): SignalCollection[] {
+  return Array.from({ length: count }, (_, i) => ({
+    type: 'click' as const,
+    timestamp: RECORDED_AT + i * 200,
+    data: { timeToClick: 150, correctionCount: 0, targetSize: 2000, missDistance: 0 },
+  }));
+}
+
+function session(genome: unknown): RecordedSession {
+  return {
+    header: { format: SESSION_FORMAT, version: SESSION_VERSION, recordedAt: RECORDED_AT, genome: genome as RecordedSession['header']['genome'] },
+    signals: clicks(20),
+  };
+}
+
+test('a session recorded before a trait existed replays from its migrated genome', () => {
+  // 1.2.0 genomes predate the input modality trait
+  const { inputModality, inputModalityMeta, ...older } = DEFAULT_GENOME;
+  const recorded = parseSession(serializeSession(session({ ...older, version: '1.2.0' })));
+
+  const { steps, finalGenome } = replaySession(recorded);
+
+  assert.ok(steps.length > 0);
+  assert.equal(finalGenome.version, DEFAULT_GENOME.version);
+  assert.equal(finalGenome.inputModality, inputModality);
+  assert.ok(finalGenome.inputModalityMeta.sampleCount >= inputModalityMeta.sampleCount);
+});
+
+test('an invalid header genome is reported, not replayed', () => {
+  assert.throws(
+    () => replaySession(session({ ...DEFAULT_GENOME, guidanceNeed: 'sometimes' })),
+    /Session header genome: guidanceNeed/
+  );
+});
+
+test('a recorded slow, hesitant session replays to slow interaction and strong guidance', () => {
+  // Two minutes of slow, corrected clicks and long hovers
+  const recorded = parseSession(readFileSync(new URL('./fixtures/hesitant-session.ndjson', import.meta.url), 'utf8'));
+
+  const { steps, finalGenome } = replaySession(recorded);
+
+  assert.equal(finalGenome.preferredInteractionSpeed, 'slow');
+  assert.equal(finalGenome.guidanceNeed, 'strong');
+  // The adaptation change it caused was judged as GenomeProvider would
+  assert.equal(steps.filter(step => step.outcome).length, 1);
+  assert.deepEqual(replaySession(recorded).finalGenome, finalGenome);
+});
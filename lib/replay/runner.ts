@@ -0,0 +1,164 @@
+/**
+ * Deterministic Replay Runner
+ *
+ * Feeds a recorded session through SignalAggregates and TraitInferenceEngine
+ * using the session's clock, mirroring GenomeProvider's debounce, window and
+ * decaying statistics, and returns the exact sequence of genome updates.
+ *
+ * Each pass is completed by completePass, as in GenomeProvider: drift
+ * detection, experiments (when enabled, with an injectable RNG) and outcome
+ * judgement with rollbacks, against rules regenerated after every update or
+ * device partition change. Not replayed, because sessions don't record
+ * them: OS accessibility settings, genomes merged in from other tabs, user
+ * actions (lock, reset, import) and rules reapplied when the time-of-day
+ * context changes without a pass.
+ */
+
+import { UXGenome } from '@/types/genome';
+import { TraitInferenceEngine } from '@/lib/inference/engine';
+import { DriftDetector, DriftEvent } from '@/lib/inference/drift';
+import { completePass } from '@/lib/inference/pass';
+import { AdaptationExperiments } from '@/lib/adaptation/experiment';
+import { OutcomeTracker, AdaptationOutcome } from '@/lib/adaptation/outcomes';
+import { generateAdaptationRules, AdaptationScales } from '@/lib/adaptation/rules';
+import { PartialAdaptationPolicy } from '@/lib/adaptation/policy';
+import { getPartitionKey } from '@/lib/context/device';
+import { SignalAggregates } from '@/lib/stats/aggregates';
+import { validateGenome, formatSchemaIssue } from '@/lib/schema/genome';
+import { migrateGenome } from '@/lib/schema/migrations';
+import { DEFAULT_GENOME, mergeGenomeUpdates } from '@/store/genomeStore';
+import { RecordedSession } from './session';
+
+export interface ReplayOptions {
+  genome?: UXGenome; // overrides the snapshot in the session header
+  inferenceDelayMs?: number; // debounce before an inference pass (GenomeProvider: 5s)
+  windowMs?: number; // signal window per pass (GenomeProvider: 30s)
+  bufferSize?: number; // raw signals kept by SignalAggregates
+  experiments?: boolean; // run micro-variant experiments, as GenomeProvider's `experiments` prop
+  random?: () => number; // experiment arm sampling; seed it for repeatable replays
+  trackOutcomes?: boolean; // judge and roll back adaptation changes (GenomeProvider: true)
+  policy?: PartialAdaptationPolicy; // as passed to GenomeProvider
+  scales?: AdaptationScales;
+}
+
+export interface ReplayStep {
+  at: number; // simulated time of the inference pass
+  signalCount: number; // signals inside the window
+  updates: Partial<UXGenome>;
+  genome: UXGenome; // genome after the updates were merged
+  driftEvents: DriftEvent[];
+  outcome: AdaptationOutcome | null; // adaptation change judged in this pass
+}
+
+export interface ReplayResult {
+  steps: ReplayStep[];
+  finalGenome: UXGenome;
+}
+
+export function replaySession(session: RecordedSession, options: ReplayOptions = {}): ReplayResult {
+  const {
+    inferenceDelayMs = 5000,
+    windowMs = 30000,
+    bufferSize = 1000,
+  } = options;
+
+  let now = session.header.recordedAt;
+  const clock = () => now;
+  const engine = new TraitInferenceEngine({ clock });
+  const drift = new DriftDetector({ clock });
+  const experiments = options.experiments ? new AdaptationExperiments({ clock, random: options.random }) : null;
+  const outcomes = (options.trackOutcomes ?? true) ? new OutcomeTracker({ clock }) : null;
+
+  let genome: UXGenome = options.genome
+    ?? (session.header.genome ? loadHeaderGenome(session.header.genome) : { ...DEFAULT_GENOME, createdAt: now, lastUpdated: now });
+  // Same decaying statistics the signal pipeline infers from, read at session time
+  const aggregates = new SignalAggregates({ bufferSize });
+  const steps: ReplayStep[] = [];
+  let pendingAt: number | null = null;
+  let partition: string | undefined;
+
+  // GenomeProvider's applyRules, so outcomes are tracked against the rules served
+  const applyRules = () => {
+    const rules = generateAdaptationRules(genome, {
+      at: now,
+      partition,
+      policy: options.policy,
+      scales: options.scales,
+      overrides: { ...experiments?.getOverrides(), ...outcomes?.getOverrides() },
+    });
+    outcomes?.applied(rules, genome);
+  };
+
+  const runInference = (at: number) => {
+    now = at;
+    pendingAt = null;
+    if (!genome.learningEnabled) return;
+
+    if (!aggregates.hasRecentSignals(windowMs, at)) return;
+
+    const signalCount = aggregates.getRecentSignals(windowMs, at).length;
+    const pass = completePass(genome, engine.inferFromAggregates(genome, aggregates, windowMs), { drift, experiments, outcomes });
+    const changed = Object.keys(pass.updates).length > 0;
+    if (changed) {
+      genome = mergeGenomeUpdates(genome, pass.updates, at);
+    }
+    if (changed || pass.reapply) {
+      applyRules();
+    }
+    if (changed || pass.outcome) {
+      steps.push({ at, signalCount, updates: pass.updates, genome, driftEvents: pass.driftEvents, outcome: pass.outcome });
+    }
+  };
+
+  applyRules();
+
+  const ordered = [...session.signals].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const signal of ordered) {
+    if (pendingAt !== null && signal.timestamp >= pendingAt) {
+      runInference(pendingAt);
+    }
+
+    now = signal.timestamp;
+    aggregates.observe(signal);
+    experiments?.observe(signal);
+    outcomes?.observe(signal);
+
+    // Switched device or pointer type: adapt to that partition right away
+    const signalPartition = signal.device ? getPartitionKey(signal.device) : undefined;
+    if (signalPartition && signalPartition !== partition) {
+      partition = signalPartition;
+      applyRules();
+    }
+
+    // Debounced inference, scheduled by the first signal after an idle pass
+    if (pendingAt === null) {
+      pendingAt = signal.timestamp + inferenceDelayMs;
+    }
+  }
+
+  if (pendingAt !== null) {
+    runInference(pendingAt);
+  }
+
+  return { steps, finalGenome: genome };
+}
+
+/**
+ * Upgrade the header snapshot to the current genome version, so sessions
+ * recorded before a trait existed still replay. Throws when it is invalid.
+ */
+function loadHeaderGenome(raw: unknown): UXGenome {
+  let migrated: Record<string, unknown>;
+  try {
+    migrated = migrateGenome(raw);
+  } catch (error) {
+    throw new Error(`Session header genome: ${(error as Error).message}`);
+  }
+
+  const issues = validateGenome(migrated);
+  if (issues.length > 0) {
+    throw new Error(`Session header genome: ${issues.map(formatSchemaIssue).join(', ')}`);
+  }
+  return migrated as unknown as UXGenome;
+}
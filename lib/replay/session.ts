@@ -0,0 +1,90 @@
+/**
+ * Recorded Session Format
+ *
+ * Versioned NDJSON serialization of a signal stream. The first line is a
+ * header describing the session, every following line is one signal.
+ */
+
+import { UXGenome, SignalCollection } from '@/types/genome';
+
+export const SESSION_FORMAT = 'ux-genome-session';
+export const SESSION_VERSION = 1;
+
+export interface SessionHeader {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  recordedAt: number; // timestamp when recording started
+  genome?: UXGenome; // genome snapshot at the start of the recording
+  label?: string;
+}
+
+export interface RecordedSession {
+  header: SessionHeader;
+  signals: SignalCollection[];
+}
+
+const SIGNAL_TYPES: SignalCollection['type'][] = [
+  'click', 'cursor', 'scroll', 'hover', 'focus', 'keyboard', 'resize',
+  'tap', 'longpress', 'pinch', 'swipe', 'ragetap',
+  'tooltipshown', 'tooltipdismissed',
+];
+
+/**
+ * Serialize a session to NDJSON (header line + one line per signal)
+ */
+export function serializeSession(session: RecordedSession): string {
+  const lines = [
+    JSON.stringify(session.header),
+    ...session.signals.map(signal => JSON.stringify(signal)),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse an NDJSON session. Throws with the offending line number on bad input.
+ */
+export function parseSession(ndjson: string): RecordedSession {
+  const lines = ndjson.split('\n').filter(line => line.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error('Session is empty');
+  }
+
+  const header = parseLine(lines[0], 1);
+  if (!isRecord(header) || header.format !== SESSION_FORMAT) {
+    throw new Error(`Line 1: expected format "${SESSION_FORMAT}"`);
+  }
+  if (typeof header.version !== 'number' || header.version > SESSION_VERSION) {
+    throw new Error(`Line 1: unsupported session version ${header.version}`);
+  }
+  if (typeof header.recordedAt !== 'number') {
+    throw new Error('Line 1: recordedAt must be a timestamp');
+  }
+
+  const signals = lines.slice(1).map((line, i) => {
+    const signal = parseLine(line, i + 2);
+    if (
+      !isRecord(signal)
+      || !SIGNAL_TYPES.includes(signal.type as SignalCollection['type'])
+      || typeof signal.timestamp !== 'number'
+      || !isRecord(signal.data)
+    ) {
+      throw new Error(`Line ${i + 2}: not a valid signal`);
+    }
+    return signal as unknown as SignalCollection;
+  });
+
+  // The genome snapshot is migrated and validated when the session is replayed
+  return { header: header as unknown as SessionHeader, signals };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseLine(line: string, lineNumber: number): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    throw new Error(`Line ${lineNumber}: invalid JSON`);
+  }
+}
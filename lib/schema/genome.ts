@@ -0,0 +1,229 @@
+/**
+ * Genome Schema
+ *
+ * Runtime validation of UXGenome documents coming from outside the app
+ * (imported files, localStorage). Reports every problem with its path so the
+ * import UI can say exactly what is wrong.
+ */
+
+import { LearningState, DeviceType, PointerType, TemporalContextKey } from '@/types/genome';
+import { BUILTIN_TRAITS, isValidTraitValue } from '@/lib/traits';
+
+export const GENOME_VERSION = '1.3.0';
+
+export interface SchemaIssue {
+  path: string; // e.g. "guidanceNeedMeta.confidence"
+  message: string;
+}
+
+const LEARNING_STATES: LearningState[] = ['observing', 'tentative', 'confident', 'locked', 'paused'];
+const SCROLL_BEHAVIORS = ['continuous', 'burst', 'mixed'];
+const DEVICE_TYPES: DeviceType[] = ['mobile', 'tablet', 'desktop'];
+const POINTER_TYPES: PointerType[] = ['mouse', 'pen', 'touch'];
+const CONTEXT_KEYS: TemporalContextKey[] = ['morning', 'afternoon', 'evening', 'night', 'weekday', 'weekend'];
+
+export function formatSchemaIssue(issue: SchemaIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Validate a (migrated) genome. Returns an empty list when it is valid.
+ */
+export function validateGenome(value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  if (!isObject(value)) {
+    return [{ path: '', message: 'expected a genome object' }];
+  }
+
+  expectString(issues, value, 'version');
+  expectNumber(issues, value, 'createdAt');
+  expectNumber(issues, value, 'lastUpdated');
+
+  // Core traits
+  BUILTIN_TRAITS.forEach((definition) => {
+    const traitValue = value[definition.key];
+    if (traitValue === undefined) {
+      issues.push({ path: definition.key, message: 'missing' });
+    } else if (!isValidTraitValue(definition, traitValue)) {
+      issues.push({ path: definition.key, message: `${JSON.stringify(traitValue)} is not a valid ${definition.label.toLowerCase()}` });
+    }
+    validateMeta(issues, value[`${definition.key}Meta`], `${definition.key}Meta`);
+  });
+
+  // Derived metrics
+  expectNumber(issues, value, 'clickPrecision', 0, 1);
+  expectNumber(issues, value, 'cursorSmoothness', 0, 1);
+  expectOneOf(issues, value, 'scrollBehavior', SCROLL_BEHAVIORS);
+  expectNumber(issues, value, 'hoverDwellTime', 0);
+  expectNumber(issues, value, 'navigationDepthTolerance', 0);
+
+  if (value.customTraits !== undefined) {
+    validateTraitStates(issues, value.customTraits, 'customTraits');
+  }
+
+  if (value.contextProfiles !== undefined) {
+    if (!isObject(value.contextProfiles)) {
+      issues.push({ path: 'contextProfiles', message: 'expected an object' });
+    } else {
+      Object.entries(value.contextProfiles).forEach(([key, profile]) => {
+        const path = `contextProfiles.${key}`;
+        if (!CONTEXT_KEYS.includes(key as TemporalContextKey)) {
+          issues.push({ path, message: `unknown context (expected one of ${CONTEXT_KEYS.join(', ')})` });
+          return;
+        }
+        validateProfile(issues, profile, path);
+      });
+    }
+  }
+
+  if (value.devicePartitions !== undefined) {
+    if (!isObject(value.devicePartitions)) {
+      issues.push({ path: 'devicePartitions', message: 'expected an object' });
+    } else {
+      Object.entries(value.devicePartitions).forEach(([key, partition]) => {
+        const path = `devicePartitions.${key}`;
+        if (!validateProfile(issues, partition, path)) return;
+        expectOneOf(issues, partition, 'deviceType', DEVICE_TYPES, path);
+        expectOneOf(issues, partition, 'pointerType', POINTER_TYPES, path);
+        expectNumber(issues, partition, 'clickPrecision', 0, 1, path);
+        expectNumber(issues, partition, 'cursorSmoothness', 0, 1, path);
+      });
+    }
+  }
+
+  // System state
+  if (typeof value.learningEnabled !== 'boolean') {
+    issues.push({ path: 'learningEnabled', message: 'expected true or false' });
+  }
+  if (value.pausedUntil !== undefined) {
+    expectNumber(issues, value, 'pausedUntil');
+  }
+
+  return issues;
+}
+
+function validateMeta(issues: SchemaIssue[], meta: unknown, path: string) {
+  if (meta === undefined) {
+    issues.push({ path, message: 'missing' });
+    return;
+  }
+  if (!isObject(meta)) {
+    issues.push({ path, message: 'expected trait metadata' });
+    return;
+  }
+
+  expectNumber(issues, meta, 'confidence', 0, 1, path);
+  expectNumber(issues, meta, 'lastUpdated', undefined, undefined, path);
+  expectNumber(issues, meta, 'sampleCount', 0, undefined, path);
+  expectOneOf(issues, meta, 'state', LEARNING_STATES, path);
+  if (meta.userActionAt !== undefined) {
+    expectNumber(issues, meta, 'userActionAt', undefined, undefined, path);
+  }
+  if (meta.posterior !== undefined) {
+    validatePosterior(issues, meta.posterior, `${path}.posterior`);
+  }
+}
+
+function validatePosterior(issues: SchemaIssue[], posterior: unknown, path: string) {
+  if (!isObject(posterior)) {
+    issues.push({ path, message: 'expected a posterior' });
+    return;
+  }
+
+  expectNumber(issues, posterior, 'updatedAt', undefined, undefined, path);
+  if (posterior.kind === 'gaussian') {
+    expectNumber(issues, posterior, 'mean', undefined, undefined, path);
+    expectNumber(issues, posterior, 'variance', 0, undefined, path);
+  } else if (posterior.kind === 'dirichlet') {
+    if (!isObject(posterior.counts)) {
+      issues.push({ path: `${path}.counts`, message: 'expected an object' });
+      return;
+    }
+    Object.keys(posterior.counts).forEach(key => expectNumber(issues, posterior.counts as Record<string, unknown>, key, 0, undefined, `${path}.counts`));
+  } else {
+    issues.push({ path: `${path}.kind`, message: 'expected gaussian or dirichlet' });
+  }
+}
+
+function validateTraitStates(issues: SchemaIssue[], states: unknown, path: string) {
+  if (!isObject(states)) {
+    issues.push({ path, message: 'expected an object' });
+    return;
+  }
+
+  Object.entries(states).forEach(([key, state]) => {
+    const statePath = `${path}.${key}`;
+    if (!isObject(state)) {
+      issues.push({ path: statePath, message: 'expected { value, meta }' });
+      return;
+    }
+    if (typeof state.value !== 'string' && typeof state.value !== 'number') {
+      issues.push({ path: `${statePath}.value`, message: 'expected a string or number' });
+    }
+    validateMeta(issues, state.meta, `${statePath}.meta`);
+  });
+}
+
+/**
+ * Returns false when the profile isn't an object, so callers can skip further checks
+ */
+function validateProfile(issues: SchemaIssue[], profile: unknown, path: string): profile is Record<string, unknown> {
+  if (!isObject(profile)) {
+    issues.push({ path, message: 'expected an object' });
+    return false;
+  }
+
+  validateTraitStates(issues, profile.traits, `${path}.traits`);
+  expectNumber(issues, profile, 'sampleCount', 0, undefined, path);
+  expectNumber(issues, profile, 'lastUpdated', undefined, undefined, path);
+  return true;
+}
+
+function expectString(issues: SchemaIssue[], object: Record<string, unknown>, key: string) {
+  if (typeof object[key] !== 'string' || object[key] === '') {
+    issues.push({ path: key, message: object[key] === undefined ? 'missing' : 'expected a non-empty string' });
+  }
+}
+
+function expectNumber(
+  issues: SchemaIssue[],
+  object: Record<string, unknown>,
+  key: string,
+  min?: number,
+  max?: number,
+  parent?: string
+) {
+  const path = parent ? `${parent}.${key}` : key;
+  const value = object[key];
+
+  if (value === undefined) {
+    issues.push({ path, message: 'missing' });
+  } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: 'expected a number' });
+  } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    const range = max !== undefined ? `between ${min} and ${max}` : `at least ${min}`;
+    issues.push({ path, message: `expected a number ${range}, got ${value}` });
+  }
+}
+
+function expectOneOf(
+  issues: SchemaIssue[],
+  object: Record<string, unknown>,
+  key: string,
+  allowed: readonly string[],
+  parent?: string
+) {
+  const path = parent ? `${parent}.${key}` : key;
+  const value = object[key];
+
+  if (value === undefined) {
+    issues.push({ path, message: 'missing' });
+  } else if (typeof value !== 'string' || !allowed.includes(value)) {
+    issues.push({ path, message: `expected one of ${allowed.join(', ')}` });
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,121 @@
+/**
+ * Genome Migrations
+ *
+ * Upgrades genomes written by older versions step by step to GENOME_VERSION.
+ * Used on import and when the store rehydrates from localStorage.
+ */
+
+import { GENOME_VERSION } from './genome';
+import { TraitDefinition, traitRegistry, createDefaultMeta, inputModalityTrait, posteriorFromEstimate, PRIOR_VARIANCE } from '@/lib/traits';
+
+interface GenomeMigration {
+  from: string;
+  to: string;
+  migrate: (genome: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Ordered migration chain. Add a step here whenever the genome shape changes
+ * and bump GENOME_VERSION to its `to` version.
+ */
+const MIGRATIONS: GenomeMigration[] = [
+  {
+    // Custom traits, temporal context profiles and device partitions
+    from: '1.0.0',
+    to: '1.1.0',
+    migrate: (genome) => ({
+      ...genome,
+      customTraits: genome.customTraits ?? {},
+      contextProfiles: genome.contextProfiles ?? {},
+      devicePartitions: genome.devicePartitions ?? {},
+    }),
+  },
+  {
+    // Bayesian trait posteriors replace heuristic confidence (and the interim score/uncertainty fields)
+    from: '1.1.0',
+    to: '1.2.0',
+    migrate: (genome) => {
+      const migrateStates = (states: unknown) => Object.fromEntries(
+        Object.entries(isObject(states) ? states : {}).map(([key, state]) => [
+          key,
+          isObject(state) ? { ...state, meta: migrateMeta(key, state.value, state.meta) } : state,
+        ])
+      );
+      const migrateProfiles = (profiles: unknown) => Object.fromEntries(
+        Object.entries(isObject(profiles) ? profiles : {}).map(([key, profile]) => [
+          key,
+          isObject(profile) ? { ...profile, traits: migrateStates(profile.traits) } : profile,
+        ])
+      );
+
+      const migrated: Record<string, unknown> = {
+        ...genome,
+        customTraits: migrateStates(genome.customTraits),
+        contextProfiles: migrateProfiles(genome.contextProfiles),
+        devicePartitions: migrateProfiles(genome.devicePartitions),
+      };
+      traitRegistry.list().filter(definition => definition.builtin).forEach((definition) => {
+        const metaKey = `${definition.key}Meta`;
+        migrated[metaKey] = migrateMeta(definition.key, genome[definition.key], genome[metaKey]);
+      });
+      return migrated;
+    },
+  },
+  {
+    // Input modality trait, learned from scratch
+    from: '1.2.0',
+    to: '1.3.0',
+    migrate: (genome) => ({
+      ...genome,
+      inputModality: genome.inputModality ?? inputModalityTrait.defaultValue,
+      inputModalityMeta: genome.inputModalityMeta ?? createDefaultMeta(),
+    }),
+  },
+];
+
+/**
+ * Give trait metadata a posterior matching what was learned. Traits this app
+ * doesn't register keep their metadata and get a posterior when next learned.
+ */
+function migrateMeta(key: string, value: unknown, meta: unknown): unknown {
+  if (!isObject(meta)) return meta;
+
+  const { score, uncertainty, ...rest } = meta;
+  const definition: TraitDefinition | undefined = traitRegistry.get(key);
+  if (!definition || (typeof value !== 'string' && typeof value !== 'number')) return rest;
+
+  const lastUpdated = typeof meta.lastUpdated === 'number' ? meta.lastUpdated : Date.now();
+  const posterior = typeof score === 'number'
+    ? { kind: 'gaussian', mean: score, variance: typeof uncertainty === 'number' ? uncertainty ** 2 : PRIOR_VARIANCE, updatedAt: lastUpdated }
+    : posteriorFromEstimate(definition, value, typeof meta.confidence === 'number' ? meta.confidence : 0, lastUpdated);
+  return { ...rest, posterior };
+}
+
+/**
+ * Migrate a raw genome to the current version. Throws when the version is
+ * unknown, e.g. a genome exported by a newer release.
+ */
+export function migrateGenome(raw: unknown): Record<string, unknown> {
+  if (!isObject(raw)) {
+    throw new Error('Expected a genome object');
+  }
+
+  let genome = raw;
+  if (typeof genome.version !== 'string') {
+    throw new Error('version: missing');
+  }
+
+  while (genome.version !== GENOME_VERSION) {
+    const migration = MIGRATIONS.find(m => m.from === genome.version);
+    if (!migration) {
+      throw new Error(`version: unsupported genome version ${genome.version} (this app reads up to ${GENOME_VERSION})`);
+    }
+    genome = { ...migration.migrate(genome), version: migration.to };
+  }
+
+  return genome;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
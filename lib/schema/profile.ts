@@ -0,0 +1,150 @@
+/**
+ * UX Genome Profile
+ *
+ * Compact interchange document for sharing a genome between apps. Carries
+ * only the cross-app traits (no derived metrics, context profiles or local
+ * learning state) plus who issued it and when. Profiles can be signed, see
+ * ./signing.
+ */
+
+import { UXGenome, TraitMetadata } from '@/types/genome';
+import { BUILTIN_TRAITS, isValidTraitValue, readTrait, writeTrait, learningStateFor } from '@/lib/traits';
+import { SchemaIssue } from './genome';
+
+export const PROFILE_MEDIA_TYPE = 'application/vnd.ux-genome.profile+json';
+export const PROFILE_VERSION = 1;
+export const PROFILE_SCHEMA_PATH = '/schemas/ux-genome-profile-1.json'; // served from public/
+
+export interface ProfileTrait {
+  value: string | number;
+  confidence: number; // 0-1
+  sampleCount: number;
+  locked?: boolean; // the user pinned this value
+}
+
+export interface ProfileSignature {
+  algorithm: 'ECDSA-P256-SHA256';
+  keyId?: string;
+  value: string; // base64
+}
+
+export interface UXGenomeProfile {
+  $schema: string;
+  mediaType: typeof PROFILE_MEDIA_TYPE;
+  version: number;
+  issuer: string; // origin of the app that created the profile
+  createdAt: string; // ISO 8601
+  traits: Record<string, ProfileTrait>;
+  signature?: ProfileSignature;
+}
+
+export function isProfileDocument(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && (value as Record<string, unknown>).mediaType === PROFILE_MEDIA_TYPE;
+}
+
+/**
+ * Build a profile from the cross-app traits of a genome
+ */
+export function createProfile(genome: UXGenome, issuer: string, createdAt: number = Date.now()): UXGenomeProfile {
+  const traits: Record<string, ProfileTrait> = {};
+
+  BUILTIN_TRAITS.forEach((definition) => {
+    const { value, meta } = readTrait(genome, definition);
+    traits[definition.key] = {
+      value,
+      confidence: meta.confidence,
+      sampleCount: meta.sampleCount,
+      ...(meta.state === 'locked' ? { locked: true } : {}),
+    };
+  });
+
+  return {
+    $schema: resolveSchemaUrl(issuer),
+    mediaType: PROFILE_MEDIA_TYPE,
+    version: PROFILE_VERSION,
+    issuer,
+    createdAt: new Date(createdAt).toISOString(),
+    traits,
+  };
+}
+
+/**
+ * Validate a profile document. Returns an empty list when it is valid.
+ */
+export function validateProfile(value: unknown): SchemaIssue[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{ path: '', message: 'expected a profile object' }];
+  }
+
+  const profile = value as Record<string, any>;
+  const issues: SchemaIssue[] = [];
+
+  if (profile.mediaType !== PROFILE_MEDIA_TYPE) {
+    issues.push({ path: 'mediaType', message: `expected ${PROFILE_MEDIA_TYPE}` });
+  }
+  if (typeof profile.version !== 'number' || profile.version > PROFILE_VERSION) {
+    issues.push({ path: 'version', message: `unsupported profile version ${profile.version}` });
+  }
+  if (typeof profile.issuer !== 'string' || profile.issuer === '') {
+    issues.push({ path: 'issuer', message: 'expected a non-empty string' });
+  }
+  if (typeof profile.createdAt !== 'string' || Number.isNaN(Date.parse(profile.createdAt))) {
+    issues.push({ path: 'createdAt', message: 'expected an ISO 8601 date' });
+  }
+
+  if (typeof profile.traits !== 'object' || profile.traits === null) {
+    issues.push({ path: 'traits', message: 'expected an object' });
+    return issues;
+  }
+
+  // Unknown traits are ignored so newer apps can add traits without breaking older ones
+  BUILTIN_TRAITS.forEach((definition) => {
+    const trait = profile.traits[definition.key];
+    const path = `traits.${definition.key}`;
+    if (trait === undefined) return;
+
+    if (!isValidTraitValue(definition, trait.value)) {
+      issues.push({ path: `${path}.value`, message: `${JSON.stringify(trait.value)} is not a valid ${definition.label.toLowerCase()}` });
+    }
+    if (typeof trait.confidence !== 'number' || trait.confidence < 0 || trait.confidence > 1) {
+      issues.push({ path: `${path}.confidence`, message: 'expected a number between 0 and 1' });
+    }
+    if (typeof trait.sampleCount !== 'number' || trait.sampleCount < 0) {
+      issues.push({ path: `${path}.sampleCount`, message: 'expected a number of at least 0' });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Apply a (validated) profile's traits on top of a local genome
+ */
+export function applyProfile(genome: UXGenome, profile: UXGenomeProfile): UXGenome {
+  const updates: Partial<UXGenome> = {};
+  const lastUpdated = Date.parse(profile.createdAt);
+
+  BUILTIN_TRAITS.forEach((definition) => {
+    const trait = profile.traits[definition.key];
+    if (!trait) return;
+
+    const meta: TraitMetadata = {
+      confidence: trait.confidence,
+      sampleCount: trait.sampleCount,
+      lastUpdated,
+      state: trait.locked ? 'locked' : learningStateFor(trait.confidence, trait.sampleCount),
+      userActionAt: Date.now(),
+    };
+    writeTrait(updates, genome, definition, { value: trait.value, meta });
+  });
+
+  return { ...genome, ...updates, lastUpdated: Date.now() };
+}
+
+function resolveSchemaUrl(issuer: string): string {
+  try {
+    return new URL(PROFILE_SCHEMA_PATH, issuer).href;
+  } catch {
+    return PROFILE_SCHEMA_PATH;
+  }
+}
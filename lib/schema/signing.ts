@@ -0,0 +1,77 @@
+/**
+ * Profile Signing
+ *
+ * ECDSA P-256 signatures over UX Genome Profiles using WebCrypto, so a
+ * receiving app can check a profile came from an issuer it trusts. The
+ * signature covers a canonical JSON encoding of every field but `signature`.
+ */
+
+import { getSubtle, toBase64, fromBase64, encodeText } from '@/lib/crypto/encoding';
+import { UXGenomeProfile } from './profile';
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+export function generateSigningKeyPair(): Promise<CryptoKeyPair> {
+  return getSubtle().generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify']);
+}
+
+export function importVerificationKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return getSubtle().importKey('jwk', jwk, SIGNING_ALGORITHM, true, ['verify']);
+}
+
+export async function signProfile(
+  profile: UXGenomeProfile,
+  privateKey: CryptoKey,
+  keyId?: string
+): Promise<UXGenomeProfile> {
+  const { signature: _ignored, ...unsigned } = profile;
+  const bytes = await getSubtle().sign(SIGNATURE_PARAMS, privateKey, encodeCanonical(unsigned));
+
+  return {
+    ...unsigned,
+    signature: {
+      algorithm: 'ECDSA-P256-SHA256',
+      ...(keyId ? { keyId } : {}),
+      value: toBase64(new Uint8Array(bytes)),
+    },
+  };
+}
+
+/**
+ * Check the profile's signature. Unsigned or tampered profiles fail.
+ */
+export async function verifyProfile(profile: UXGenomeProfile, publicKey: CryptoKey): Promise<boolean> {
+  const { signature, ...unsigned } = profile;
+  if (!signature || signature.algorithm !== 'ECDSA-P256-SHA256') return false;
+
+  try {
+    return await getSubtle().verify(
+      SIGNATURE_PARAMS,
+      publicKey,
+      fromBase64(signature.value),
+      encodeCanonical(unsigned)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * JSON with object keys sorted, so re-serializing a profile doesn't break its signature
+ */
+function encodeCanonical(value: unknown): ArrayBuffer {
+  return encodeText(JSON.stringify(canonicalize(value)));
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (typeof value !== 'object' || value === null) return value;
+
+  return Object.keys(value)
+    .sort()
+    .reduce<Record<string, unknown>>((sorted, key) => {
+      sorted[key] = canonicalize((value as Record<string, unknown>)[key]);
+      return sorted;
+    }, {});
+}
@@ -5,27 +5,96 @@
  * Never analyzes content, only interaction patterns.
  */
 
-import { SignalCollection, ClickSignal, CursorSignal, ScrollSignal, HoverSignal, FocusSignal, KeyboardSignal, ResizeSignal } from '@/types/genome';
+import { SignalCollection, CursorSignal, ClickSignal, ScrollSignal, HoverSignal, FocusSignal, KeyboardSignal, KeyCategory, ResizeSignal, SignalDeviceContext, ElementAttribution } from '@/types/genome';
+import { classifyDeviceType, detectDeviceContext, toPointerType } from '@/lib/context/device';
+import { SignalPipeline, SyncSignalPipeline } from '@/lib/pipeline/pipeline';
+import { GestureRecognizer, PointerSample } from './gestures';
+
+const INTERACTIVE_SELECTOR = 'button, a[href], input, select, textarea, [role="button"], [onclick], [tabindex]';
+const NEAR_MISS_RADIUS = 24; // px around a tap searched for the intended target
+const MAX_ATTRIBUTE_LENGTH = 64;
+const TAB_FOCUS_WINDOW = 100; // ms between a Tab press and the focus it moves
+
+const NAVIGATION_KEYS = ['Tab', 'Enter', 'Escape', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Home', 'End', 'PageUp', 'PageDown'];
+const EDITING_KEYS = ['Backspace', 'Delete', 'Insert', 'Undo', 'Redo', 'Cut', 'Copy', 'Paste'];
+// Controls that Space activates or toggles rather than typing a space
+const SPACE_CONTROL_SELECTOR = [
+  'button', 'summary', 'select',
+  'input[type="checkbox"]', 'input[type="radio"]', 'input[type="button"]', 'input[type="submit"]', 'input[type="reset"]',
+  '[role="button"]', '[role="checkbox"]', '[role="radio"]', '[role="switch"]', '[role="tab"]', '[role="menuitem"]', '[role="option"]',
+].join(', ');
+
+/**
+ * Reduce a key to its category. Printable keys all become "character",
+ * except Space on a control, which operates it like Enter; modifiers,
+ * function and media keys are not categorized (null).
+ */
+function categorizeKey(key: string, target: EventTarget | null): KeyCategory | null {
+  if (NAVIGATION_KEYS.includes(key)) return 'navigation';
+  if (key === ' ' && target instanceof Element && target.matches(SPACE_CONTROL_SELECTOR)) return 'navigation';
+  if (EDITING_KEYS.includes(key)) return 'editing';
+  if (key.length === 1) return 'character';
+  return null;
+}
+
+function isFocusVisible(element: HTMLElement): boolean {
+  try {
+    return element.matches(':focus-visible');
+  } catch {
+    return false; // browsers without :focus-visible
+  }
+}
+
+/**
+ * Opt-in identity of the nearest element marked with `data-genome-id`.
+ * Only the attribute values are read, never the element's content.
+ */
+export function getElementAttribution(element: Element | null | undefined): ElementAttribution | undefined {
+  const marked = element?.closest('[data-genome-id]');
+  const id = marked?.getAttribute('data-genome-id')?.slice(0, MAX_ATTRIBUTE_LENGTH);
+  if (!marked || !id) return undefined;
+
+  const role = marked.getAttribute('data-genome-role')?.slice(0, MAX_ATTRIBUTE_LENGTH);
+  return role ? { id, role } : { id };
+}
 
 export class SignalCapture {
-  private buffer: SignalCollection[] = [];
-  private cursorPosition = { x: 0, y: 0, lastX: 0, lastY: 0, lastTime: 0 };
   private scrollState = { lastScroll: 0, lastDirection: 'down' as 'up' | 'down', reversals: 0 };
   private clickState = { corrections: 0, hoverStart: 0, targetElement: null as HTMLElement | null };
-  private hoverState = new Map<string, number>(); // element -> hover start time
-  private keyboardState = { lastKeyTime: 0, lastKey: '' };
+  private hoverState = new Map<string, { start: number; triggered: boolean }>(); // element -> open hover session
+  private keyboardState = { lastKeyTime: 0, lastTabTime: 0, lastPointerTime: 0 }; // pointer time tells keyboard focus from clicked focus
+  private deviceContext: SignalDeviceContext = { deviceType: 'desktop', pointerType: 'mouse' };
+  private gestures = new GestureRecognizer((signal) => this.emit(signal));
   private sampleRate = 16; // ~60fps
   private lastSample = 0;
   
   private listeners: ((signal: SignalCollection) => void)[] = [];
-
-  constructor() {
+  private cursorUnsubscribers: (() => void)[] = [];
+  private listenerAbort = new AbortController();
+
+  /**
+   * Buffering, cursor math and inference happen in the pipeline (a worker when available);
+   * capture itself only records raw event data.
+   */
+  constructor(private pipeline: SignalPipeline = new SyncSignalPipeline()) {
     // Only setup listeners in browser environment
     if (typeof window !== 'undefined' && typeof document !== 'undefined') {
+      this.deviceContext = detectDeviceContext();
       this.setupListeners();
     }
   }
 
+  /**
+   * Device class and pointer type currently in use
+   */
+  getDeviceContext(): SignalDeviceContext {
+    return { ...this.deviceContext };
+  }
+
+  /**
+   * Every captured signal except cursor movement, which is derived and kept
+   * in the pipeline; see subscribeCursor
+   */
   subscribe(callback: (signal: SignalCollection) => void) {
     this.listeners.push(callback);
     return () => {
@@ -33,25 +102,113 @@ export class SignalCapture {
     };
   }
 
+  /**
+   * Cursor signals derived in the pipeline, delivered in batches about once
+   * a second. They only leave the pipeline while someone subscribes, so
+   * subscribe only to record or display them.
+   */
+  subscribeCursor(callback: (signals: CursorSignal[]) => void) {
+    const unsubscribe = this.pipeline.onCursorSignals(callback);
+    this.cursorUnsubscribers.push(unsubscribe);
+    return () => {
+      unsubscribe();
+      this.cursorUnsubscribers = this.cursorUnsubscribers.filter(u => u !== unsubscribe);
+    };
+  }
+
+  /**
+   * Record a signal raised by a component rather than a DOM event (e.g.
+   * tooltips shown and dismissed), stamped with the current device
+   */
+  record(signal: SignalCollection) {
+    this.emit(signal);
+  }
+
+  /**
+   * Pipeline that buffers these signals and runs inference on them
+   */
+  getPipeline(): SignalPipeline {
+    return this.pipeline;
+  }
+
   private emit(signal: SignalCollection) {
-    this.buffer.push(signal);
+    signal.device = { ...this.deviceContext };
+    this.pipeline.push(signal);
     this.listeners.forEach(cb => cb(signal));
-    
-    // Keep buffer size manageable (last 1000 signals)
-    if (this.buffer.length > 1000) {
-      this.buffer.shift();
-    }
   }
 
   private setupListeners() {
     // Guard against SSR
     if (typeof window === 'undefined' || typeof document === 'undefined') return;
     
+    // Every listener is removed by destroy()
+    const { signal } = this.listenerAbort;
+    
+    // Pointer type tracking (mouse, pen, touch) for device partitions
+    document.addEventListener('pointerdown', (e) => {
+      this.deviceContext.pointerType = toPointerType(e.pointerType);
+      this.keyboardState.lastPointerTime = Date.now();
+    }, { capture: true, signal });
+    
+    // Touch gestures (tap, long-press, swipe, pinch, rage-tap)
+    if (typeof window.PointerEvent !== 'undefined') {
+      const isTouchLike = (e: PointerEvent) => e.pointerType === 'touch' || e.pointerType === 'pen';
+      
+      document.addEventListener('pointerdown', (e) => {
+        if (isTouchLike(e)) this.gestures.pointerDown(this.toPointerSample(e.pointerId, e.clientX, e.clientY, e.target));
+      }, { capture: true, signal });
+      document.addEventListener('pointermove', (e) => {
+        if (isTouchLike(e)) this.gestures.pointerMove(this.toPointerSample(e.pointerId, e.clientX, e.clientY));
+      }, { capture: true, passive: true, signal });
+      document.addEventListener('pointerup', (e) => {
+        if (isTouchLike(e)) this.gestures.pointerUp(this.toPointerSample(e.pointerId, e.clientX, e.clientY));
+      }, { capture: true, signal });
+      document.addEventListener('pointercancel', (e) => {
+        if (isTouchLike(e)) this.gestures.pointerCancel(this.toPointerSample(e.pointerId, e.clientX, e.clientY));
+      }, { capture: true, signal });
+    } else {
+      // Touch Events fallback for browsers without Pointer Events
+      const forEachTouch = (e: TouchEvent, handler: (touch: Touch) => void) => {
+        this.deviceContext.pointerType = 'touch';
+        Array.from(e.changedTouches).forEach(handler);
+      };
+      
+      document.addEventListener('touchstart', (e) => forEachTouch(e, (t) =>
+        this.gestures.pointerDown(this.toPointerSample(t.identifier, t.clientX, t.clientY, t.target))
+      ), { capture: true, passive: true, signal });
+      document.addEventListener('touchmove', (e) => forEachTouch(e, (t) =>
+        this.gestures.pointerMove(this.toPointerSample(t.identifier, t.clientX, t.clientY))
+      ), { capture: true, passive: true, signal });
+      document.addEventListener('touchend', (e) => forEachTouch(e, (t) =>
+        this.gestures.pointerUp(this.toPointerSample(t.identifier, t.clientX, t.clientY))
+      ), { capture: true, passive: true, signal });
+      document.addEventListener('touchcancel', (e) => forEachTouch(e, (t) =>
+        this.gestures.pointerCancel(this.toPointerSample(t.identifier, t.clientX, t.clientY))
+      ), { capture: true, passive: true, signal });
+    }
+    
     // Click tracking
     document.addEventListener('click', (e) => {
       const target = e.target;
       if (!(target instanceof HTMLElement)) return;
       
+      // Enter or Space on a control fires a click without a pointer (detail 0);
+      // there is no position to measure a miss from
+      if (e.detail === 0) {
+        this.emit({
+          type: 'click',
+          timestamp: Date.now(),
+          data: { targetSize: 0, correctionCount: 0, timeToClick: 0, keyboard: true },
+          target: getElementAttribution(target),
+        });
+        return;
+      }
+      
+      this.markHoverTriggered(target);
+      
+      // Touch and pen clicks are already captured as taps
+      if (this.deviceContext.pointerType !== 'mouse') return;
+      
       const rect = target.getBoundingClientRect();
       const targetSize = rect.width * rect.height;
       
@@ -88,11 +245,13 @@ export class SignalCapture {
           correctionCount: this.clickState.corrections,
           timeToClick,
         },
+        // The element being aimed at, even when the click landed beside it
+        target: getElementAttribution(target) ?? getElementAttribution(this.clickState.targetElement),
       };
 
       this.emit(signal);
       this.clickState = { corrections: 0, hoverStart: 0, targetElement: null };
-    });
+    }, { signal });
 
     // Mouse movement tracking (cursor smoothness)
     document.addEventListener('mousemove', (e) => {
@@ -100,48 +259,9 @@ export class SignalCapture {
       if (now - this.lastSample < this.sampleRate) return;
       this.lastSample = now;
 
-      const { x, y } = { x: e.clientX, y: e.clientY };
-      const timeDelta = now - this.cursorPosition.lastTime || 16;
-      const dx = x - this.cursorPosition.lastX;
-      const dy = y - this.cursorPosition.lastY;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      const velocity = distance / timeDelta;
-      const acceleration = timeDelta > 0 
-        ? Math.abs(velocity - (this.cursorPosition.lastX ? 
-            Math.sqrt(
-              Math.pow(this.cursorPosition.lastX - (this.cursorPosition.lastX - dx), 2) +
-              Math.pow(this.cursorPosition.lastY - (this.cursorPosition.lastY - dy), 2)
-            ) / (timeDelta || 16) : 0)) 
-        : 0;
-
-      // Calculate jitter (variance in movement)
-      const expectedX = this.cursorPosition.lastX + (dx * 0.5);
-      const expectedY = this.cursorPosition.lastY + (dy * 0.5);
-      const jitter = Math.sqrt(
-        Math.pow(x - expectedX, 2) + Math.pow(y - expectedY, 2)
-      );
-
-      const signal: CursorSignal = {
-        type: 'cursor',
-        timestamp: now,
-        data: {
-          velocity,
-          acceleration,
-          jitter,
-          pathLength: distance,
-        },
-      };
-
-      this.emit(signal);
-
-      this.cursorPosition = {
-        x,
-        y,
-        lastX: x,
-        lastY: y,
-        lastTime: now,
-      };
-    });
+      // Velocity and jitter are derived in the pipeline
+      this.pipeline.pushCursor({ x: e.clientX, y: e.clientY, timestamp: now }, { ...this.deviceContext });
+    }, { passive: true, signal });
 
     // Scroll tracking
     let scrollTimeout: NodeJS.Timeout;
@@ -182,45 +302,48 @@ export class SignalCapture {
       scrollTimeout = setTimeout(() => {
         this.scrollState.reversals = 0;
       }, 500);
-    });
+    }, { signal });
 
     // Hover tracking
     document.addEventListener('mouseenter', (e) => {
       const target = e.target;
       if (!(target instanceof HTMLElement)) return;
       
-      const key = target.tagName + (target.className || '');
-      this.hoverState.set(key, Date.now());
-    }, true);
+      this.hoverState.set(hoverKey(target), { start: Date.now(), triggered: false });
+    }, { capture: true, signal });
 
     document.addEventListener('mouseleave', (e) => {
       const target = e.target;
       if (!(target instanceof HTMLElement)) return;
       
-      const key = target.tagName + (target.className || '');
-      const startTime = this.hoverState.get(key);
+      const key = hoverKey(target);
+      const session = this.hoverState.get(key);
       
-      if (startTime) {
-        const dwellTime = Date.now() - startTime;
+      if (session) {
+        const dwellTime = Date.now() - session.start;
         const signal: HoverSignal = {
           type: 'hover',
           timestamp: Date.now(),
           data: {
             element: target.tagName.toLowerCase(),
             dwellTime,
-            triggered: false, // Would need to track if action was triggered
+            triggered: session.triggered,
           },
+          // Only the marked element's own dwell, not that of everything inside it
+          target: target.hasAttribute('data-genome-id') ? getElementAttribution(target) : undefined,
         };
         this.emit(signal);
         this.hoverState.delete(key);
       }
-    }, true);
+    }, { capture: true, signal });
 
     // Focus tracking
     document.addEventListener('focusin', (e) => {
       const target = e.target;
       if (!(target instanceof HTMLElement)) return;
       
+      this.markHoverTriggered(target);
+      
       const timeToFocus = Date.now(); // Simplified - would track from page load
       
       // Count tab depth (simplified)
@@ -231,22 +354,30 @@ export class SignalCapture {
         element = element.parentElement;
       }
 
+      const now = Date.now();
       const signal: FocusSignal = {
         type: 'focus',
-        timestamp: Date.now(),
+        timestamp: now,
         data: {
           element: target.tagName.toLowerCase(),
           timeToFocus,
           tabCount,
+          // Text fields match :focus-visible even when clicked
+          focusVisible: this.keyboardState.lastKeyTime > this.keyboardState.lastPointerTime && isFocusVisible(target),
+          viaTab: now - this.keyboardState.lastTabTime < TAB_FOCUS_WINDOW,
         },
+        target: getElementAttribution(target),
       };
 
       this.emit(signal);
-    }, true);
+    }, { capture: true, signal });
 
-    // Keyboard tracking
+    // Keyboard tracking (keys are only kept as categories)
     document.addEventListener('keydown', (e) => {
       const now = Date.now();
+      const category = categorizeKey(e.key, e.target);
+      if (!category) return;
+      
       const isCorrection = ['Backspace', 'Delete', 'ArrowLeft', 'ArrowRight'].includes(e.key);
       
       if (isCorrection) {
@@ -257,7 +388,8 @@ export class SignalCapture {
         type: 'keyboard',
         timestamp: now,
         data: {
-          key: e.key,
+          category,
+          shortcut: e.ctrlKey || e.altKey || e.metaKey,
           timeSinceLastKey: now - this.keyboardState.lastKeyTime,
           isCorrection,
         },
@@ -266,8 +398,8 @@ export class SignalCapture {
       this.emit(signal);
 
       this.keyboardState.lastKeyTime = now;
-      this.keyboardState.lastKey = e.key;
-    });
+      if (e.key === 'Tab') this.keyboardState.lastTabTime = now;
+    }, { signal });
 
     // Resize tracking
     let resizeTimeout: NodeJS.Timeout;
@@ -276,10 +408,8 @@ export class SignalCapture {
       resizeTimeout = setTimeout(() => {
         const width = window.innerWidth;
         const height = window.innerHeight;
-        let deviceType: 'mobile' | 'tablet' | 'desktop' = 'desktop';
-        
-        if (width < 768) deviceType = 'mobile';
-        else if (width < 1024) deviceType = 'tablet';
+        const deviceType = classifyDeviceType(width);
+        this.deviceContext.deviceType = deviceType;
 
         const signal: ResizeSignal = {
           type: 'resize',
@@ -293,7 +423,7 @@ export class SignalCapture {
 
         this.emit(signal);
       }, 250);
-    });
+    }, { signal });
 
     // Track hover start for click timing
     document.addEventListener('mouseover', (e) => {
@@ -304,21 +434,77 @@ export class SignalCapture {
         this.clickState.hoverStart = Date.now();
         this.clickState.targetElement = target;
       }
-    });
+    }, { signal });
   }
 
-  getRecentSignals(windowMs: number = 60000): SignalCollection[] {
-    const cutoff = Date.now() - windowMs;
-    return this.buffer.filter(s => s.timestamp >= cutoff);
+  /**
+   * A click or focus triggers the hover sessions of the element and of every
+   * hovered element containing it
+   */
+  private markHoverTriggered(target: HTMLElement) {
+    for (let element: HTMLElement | null = target; element; element = element.parentElement) {
+      const session = this.hoverState.get(hoverKey(element));
+      if (session) session.triggered = true;
+    }
+  }
+
+  /**
+   * Pointer sample with the geometry of the intended target at touch down
+   */
+  private toPointerSample(pointerId: number, x: number, y: number, target?: EventTarget | null): PointerSample {
+    const sample: PointerSample = { pointerId, x, y, timestamp: Date.now() };
+    if (target) {
+      sample.target = this.resolveTapTarget(x, y, target);
+    }
+    return sample;
+  }
+
+  /**
+   * Find the interactive element a tap was aimed at. A tap on a non-interactive
+   * spot counts as a miss of the nearest interactive element around it.
+   */
+  private resolveTapTarget(x: number, y: number, target: EventTarget): PointerSample['target'] {
+    const hit = target instanceof Element ? target.closest(INTERACTIVE_SELECTOR) : null;
+    if (hit) {
+      const rect = hit.getBoundingClientRect();
+      return { targetSize: rect.width * rect.height, element: getElementAttribution(hit) };
+    }
+
+    let nearest: { targetSize: number; missDistance: number; element?: ElementAttribution } | undefined;
+    for (let angle = 0; angle < 360; angle += 45) {
+      const radians = (angle * Math.PI) / 180;
+      const element = document.elementFromPoint(
+        x + Math.cos(radians) * NEAR_MISS_RADIUS,
+        y + Math.sin(radians) * NEAR_MISS_RADIUS
+      )?.closest(INTERACTIVE_SELECTOR);
+      if (!element) continue;
+
+      const rect = element.getBoundingClientRect();
+      const missDistance = Math.sqrt(
+        Math.pow(x - (rect.left + rect.width / 2), 2) + Math.pow(y - (rect.top + rect.height / 2), 2)
+      );
+      if (!nearest || missDistance < nearest.missDistance) {
+        nearest = { targetSize: rect.width * rect.height, missDistance, element: getElementAttribution(element) };
+      }
+    }
+
+    return nearest;
   }
 
   clearBuffer() {
-    this.buffer = [];
+    this.pipeline.reset();
   }
 
   destroy() {
-    // Cleanup would go here if needed
-    this.clearBuffer();
+    this.listenerAbort.abort();
+    this.listeners = [];
+    this.cursorUnsubscribers.forEach(unsubscribe => unsubscribe());
+    this.cursorUnsubscribers = [];
+    this.pipeline.dispose();
   }
 }
 
+// Marked elements are keyed by their genome id, others by tag and class
+function hoverKey(element: HTMLElement): string {
+  return element.getAttribute('data-genome-id') ?? element.tagName + (element.className || '');
+}
@@ -0,0 +1,63 @@
+/**
+ * Cursor Tracking
+ *
+ * Derives velocity, acceleration and jitter from raw cursor coordinates.
+ * Kept free of DOM access so it can run inside the signal worker.
+ */
+
+import { CursorSignal } from '@/types/genome';
+
+export interface RawCursorSample {
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+export class CursorTracker {
+  private cursorPosition = { x: 0, y: 0, lastX: 0, lastY: 0, lastTime: 0 };
+
+  track({ x, y, timestamp: now }: RawCursorSample): CursorSignal {
+    const timeDelta = now - this.cursorPosition.lastTime || 16;
+    const dx = x - this.cursorPosition.lastX;
+    const dy = y - this.cursorPosition.lastY;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    const velocity = distance / timeDelta;
+    const acceleration = timeDelta > 0 
+      ? Math.abs(velocity - (this.cursorPosition.lastX ? 
+          Math.sqrt(
+            Math.pow(this.cursorPosition.lastX - (this.cursorPosition.lastX - dx), 2) +
+            Math.pow(this.cursorPosition.lastY - (this.cursorPosition.lastY - dy), 2)
+          ) / (timeDelta || 16) : 0)) 
+      : 0;
+
+    // Calculate jitter (variance in movement)
+    const expectedX = this.cursorPosition.lastX + (dx * 0.5);
+    const expectedY = this.cursorPosition.lastY + (dy * 0.5);
+    const jitter = Math.sqrt(
+      Math.pow(x - expectedX, 2) + Math.pow(y - expectedY, 2)
+    );
+
+    this.cursorPosition = {
+      x,
+      y,
+      lastX: x,
+      lastY: y,
+      lastTime: now,
+    };
+
+    return {
+      type: 'cursor',
+      timestamp: now,
+      data: {
+        velocity,
+        acceleration,
+        jitter,
+        pathLength: distance,
+      },
+    };
+  }
+
+  reset() {
+    this.cursorPosition = { x: 0, y: 0, lastX: 0, lastY: 0, lastTime: 0 };
+  }
+}
@@ -0,0 +1,180 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SignalCollection } from '@/types/genome';
+import { summarizeSignals } from '@/lib/stats/summary';
+import { calculateClickPrecision } from '@/lib/inference/metrics';
+import { densityToleranceTrait, motionSensitivityTrait } from '@/lib/traits';
+import { DEFAULT_GENOME } from '@/store/genomeStore';
+import { GestureRecognizer, GestureSignal, PointerSample } from './gestures';
+
+function record() {
+  const signals: GestureSignal[] = [];
+  return { signals, recognizer: new GestureRecognizer(signal => signals.push(signal)) };
+}
+
+function sample(pointerId: number, x: number, y: number, timestamp: number, target?: PointerSample['target']): PointerSample {
+  return { pointerId, x, y, timestamp, ...(target && { target }) };
+}
+
+// One finger down at (x, y), up after `duration` ms at an offset
+function touch(recognizer: GestureRecognizer, start: number, duration: number, { x = 100, y = 100, dx = 0, dy = 0, target }: {
+  x?: number; y?: number; dx?: number; dy?: number; target?: PointerSample['target'];
+} = {}) {
+  recognizer.pointerDown(sample(1, x, y, start, target));
+  recognizer.pointerMove(sample(1, x + dx / 2, y + dy / 2, start + duration / 2));
+  recognizer.pointerUp(sample(1, x + dx, y + dy, start + duration));
+}
+
+test('a short, still touch is a tap on its target', () => {
+  const { signals, recognizer } = record();
+  touch(recognizer, 0, 120, { dx: 2, target: { targetSize: 1600, missDistance: 4, element: { id: 'save' } } });
+
+  assert.equal(signals.length, 1);
+  const [tap] = signals;
+  assert.equal(tap.type, 'tap');
+  if (tap.type !== 'tap') return;
+  assert.equal(tap.data.targetSize, 1600);
+  assert.equal(tap.data.missDistance, 4);
+  assert.equal(tap.data.accidental, false);
+  assert.deepEqual(tap.target, { id: 'save' });
+});
+
+test('a brushing contact is an accidental tap', () => {
+  const { signals, recognizer } = record();
+  touch(recognizer, 0, 20);
+
+  assert.equal(signals[0].type, 'tap');
+  assert.equal(signals[0].type === 'tap' && signals[0].data.accidental, true);
+});
+
+test('holding still is a long-press, not a tap', () => {
+  const { signals, recognizer } = record();
+  touch(recognizer, 0, 700, { dx: 3 });
+
+  assert.deepEqual(signals.map(s => s.type), ['longpress']);
+});
+
+test('a hold between tap and long-press length is neither', () => {
+  const { signals, recognizer } = record();
+  touch(recognizer, 0, 400);
+
+  assert.equal(signals.length, 0);
+});
+
+test('a fast travel is a swipe in its dominant direction', () => {
+  const { signals, recognizer } = record();
+  touch(recognizer, 0, 200, { dx: -120, dy: 20 });
+  touch(recognizer, 1000, 200, { dx: 10, dy: 80 });
+
+  assert.deepEqual(signals.map(s => s.type === 'swipe' && s.data.direction), ['left', 'down']);
+});
+
+test('a slow drag is not a swipe', () => {
+  const { signals, recognizer } = record();
+  touch(recognizer, 0, 1500, { dx: 200 });
+
+  assert.equal(signals.length, 0);
+});
+
+test('two fingers spreading apart are a pinch, and neither finger taps', () => {
+  const { signals, recognizer } = record();
+  recognizer.pointerDown(sample(1, 100, 100, 0));
+  recognizer.pointerDown(sample(2, 150, 100, 10));
+  recognizer.pointerMove(sample(1, 60, 100, 100));
+  recognizer.pointerMove(sample(2, 190, 100, 100));
+  recognizer.pointerUp(sample(1, 50, 100, 150));
+  recognizer.pointerUp(sample(2, 200, 100, 160));
+
+  assert.equal(signals.length, 1);
+  const [pinch] = signals;
+  assert.equal(pinch.type, 'pinch');
+  // 50px apart at the start, 140px when the first finger lifts
+  assert.ok(pinch.type === 'pinch' && Math.abs(pinch.data.scale - 2.8) < 1e-9);
+});
+
+test('two fingers that barely move are no pinch', () => {
+  const { signals, recognizer } = record();
+  recognizer.pointerDown(sample(1, 100, 100, 0));
+  recognizer.pointerDown(sample(2, 200, 100, 10));
+  recognizer.pointerUp(sample(1, 102, 100, 150));
+  recognizer.pointerUp(sample(2, 201, 100, 160));
+
+  assert.equal(signals.length, 0);
+});
+
+test('three quick taps in one spot are a rage tap', () => {
+  const { signals, recognizer } = record();
+  touch(recognizer, 0, 80);
+  touch(recognizer, 250, 80, { x: 105 });
+  touch(recognizer, 500, 80, { y: 95 });
+
+  assert.deepEqual(signals.map(s => s.type), ['tap', 'tap', 'tap', 'ragetap']);
+  const rage = signals[3];
+  assert.equal(rage.type === 'ragetap' && rage.data.tapCount, 3);
+});
+
+test('taps spread out in time or space are no rage tap', () => {
+  const { signals, recognizer } = record();
+  touch(recognizer, 0, 80);
+  touch(recognizer, 250, 80, { x: 300 });
+  touch(recognizer, 2000, 80);
+
+  assert.ok(signals.every(s => s.type === 'tap'));
+});
+
+test('a cancelled touch produces nothing', () => {
+  const { signals, recognizer } = record();
+  recognizer.pointerDown(sample(1, 100, 100, 0));
+  recognizer.pointerCancel(sample(1, 100, 100, 50));
+  recognizer.pointerUp(sample(1, 100, 100, 100));
+
+  assert.equal(signals.length, 0);
+});
+
+// Gesture sequences for the touch-trait tests, one gesture per second
+function gestures(perform: (recognizer: GestureRecognizer, start: number, i: number) => void, count: number): SignalCollection[] {
+  const { signals, recognizer } = record();
+  for (let i = 0; i < count; i++) perform(recognizer, i * 1000, i);
+  return signals;
+}
+
+test('missed taps lower click precision and call for a spacious layout', () => {
+  const signals = gestures((recognizer, start, i) => {
+    touch(recognizer, start, 100, { target: i % 2 === 0 ? { targetSize: 400, missDistance: 12 } : { targetSize: 400 } });
+  }, 20);
+  const summary = summarizeSignals(signals);
+
+  assert.equal(calculateClickPrecision(summary), 0.5);
+  assert.equal(densityToleranceTrait.inferFromSummary?.(summary, DEFAULT_GENOME)?.value, 'spacious');
+});
+
+test('accurate taps on large targets allow a compact layout', () => {
+  const signals = gestures((recognizer, start) => {
+    touch(recognizer, start, 100, { target: { targetSize: 2000 } });
+  }, 20);
+  const summary = summarizeSignals(signals);
+
+  assert.equal(calculateClickPrecision(summary), 1);
+  assert.equal(densityToleranceTrait.inferFromSummary?.(summary, DEFAULT_GENOME)?.value, 'compact');
+});
+
+test('swiping back and forth reads as motion sensitivity', () => {
+  // Each swipe reverses the one before within a second
+  const signals = gestures((recognizer, start) => {
+    touch(recognizer, start, 150, { dy: -100 });
+    touch(recognizer, start + 500, 150, { dy: 100 });
+  }, 10);
+  const result = motionSensitivityTrait.inferFromSummary?.(summarizeSignals(signals), DEFAULT_GENOME);
+
+  assert.ok(result);
+  assert.notEqual(result.value, 'low');
+});
+
+test('swipes in one direction read as comfortable with motion', () => {
+  const signals = gestures((recognizer, start) => {
+    touch(recognizer, start, 150, { dy: -100 });
+  }, 12);
+  const result = motionSensitivityTrait.inferFromSummary?.(summarizeSignals(signals), DEFAULT_GENOME);
+
+  assert.equal(result?.value, 'low');
+});
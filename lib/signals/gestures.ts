@@ -0,0 +1,190 @@
+/**
+ * Touch Gesture Recognizer
+ *
+ * Turns raw touch/pen pointer samples into tap, long-press, swipe, pinch and
+ * rage-tap signals. Has no DOM dependency, so it can be driven by synthetic
+ * pointer sequences as easily as by SignalCapture.
+ */
+
+import { TapSignal, LongPressSignal, PinchSignal, SwipeSignal, RageTapSignal, ElementAttribution } from '@/types/genome';
+
+export type GestureSignal = TapSignal | LongPressSignal | PinchSignal | SwipeSignal | RageTapSignal;
+
+export interface PointerSample {
+  pointerId: number;
+  x: number;
+  y: number;
+  timestamp: number;
+  // Geometry of the target under the pointer, resolved by the caller at pointer down
+  target?: {
+    targetSize: number;
+    missDistance?: number;
+    element?: ElementAttribution;
+  };
+}
+
+interface ActivePointer {
+  start: PointerSample;
+  last: PointerSample;
+  maxMovement: number;
+}
+
+const TAP_MOVEMENT = 10; // px a finger may drift and still count as a tap
+const TAP_MAX_DURATION = 300; // ms
+const ACCIDENTAL_TAP_DURATION = 40; // ms, shorter contacts are brushes
+const LONG_PRESS_DURATION = 500; // ms
+const SWIPE_MIN_DISTANCE = 30; // px
+const SWIPE_MAX_DURATION = 800; // ms
+const PINCH_MIN_SCALE_CHANGE = 0.1;
+const RAGE_TAP_COUNT = 3;
+const RAGE_TAP_WINDOW = 1000; // ms
+const RAGE_TAP_RADIUS = 40; // px
+
+export class GestureRecognizer {
+  private pointers = new Map<number, ActivePointer>();
+  private pinch: { startDistance: number; startTime: number } | null = null;
+  private pinchActive = false; // pointers that took part in a pinch don't also tap or swipe
+  private recentTaps: { x: number; y: number; timestamp: number }[] = [];
+
+  constructor(private onGesture: (signal: GestureSignal) => void) {}
+
+  pointerDown(sample: PointerSample) {
+    this.pointers.set(sample.pointerId, { start: sample, last: sample, maxMovement: 0 });
+
+    if (this.pointers.size === 2) {
+      this.pinch = { startDistance: this.pointerDistance(), startTime: sample.timestamp };
+      this.pinchActive = true;
+    }
+  }
+
+  pointerMove(sample: PointerSample) {
+    const pointer = this.pointers.get(sample.pointerId);
+    if (!pointer) return;
+
+    pointer.last = sample;
+    pointer.maxMovement = Math.max(pointer.maxMovement, distance(pointer.start, sample));
+  }
+
+  pointerUp(sample: PointerSample) {
+    const pointer = this.pointers.get(sample.pointerId);
+    if (!pointer) return;
+
+    this.pointerMove(sample);
+
+    // Two-finger gesture ending
+    if (this.pinch && this.pointers.size === 2) {
+      const scale = this.pinch.startDistance > 0 ? this.pointerDistance() / this.pinch.startDistance : 1;
+      if (Math.abs(scale - 1) >= PINCH_MIN_SCALE_CHANGE) {
+        this.onGesture({
+          type: 'pinch',
+          timestamp: sample.timestamp,
+          data: { scale, duration: sample.timestamp - this.pinch.startTime },
+        });
+      }
+      this.pinch = null;
+    }
+
+    this.pointers.delete(sample.pointerId);
+
+    if (this.pinchActive) {
+      if (this.pointers.size === 0) this.pinchActive = false;
+      return;
+    }
+
+    this.classifySingle(pointer, sample);
+  }
+
+  pointerCancel(sample: PointerSample) {
+    this.pointers.delete(sample.pointerId);
+    if (this.pointers.size < 2) this.pinch = null;
+    if (this.pointers.size === 0) this.pinchActive = false;
+  }
+
+  reset() {
+    this.pointers.clear();
+    this.pinch = null;
+    this.pinchActive = false;
+    this.recentTaps = [];
+  }
+
+  private classifySingle(pointer: ActivePointer, end: PointerSample) {
+    const duration = end.timestamp - pointer.start.timestamp;
+    const travel = distance(pointer.start, end);
+
+    if (travel >= SWIPE_MIN_DISTANCE && duration <= SWIPE_MAX_DURATION) {
+      const dx = end.x - pointer.start.x;
+      const dy = end.y - pointer.start.y;
+      const direction = Math.abs(dx) > Math.abs(dy)
+        ? (dx > 0 ? 'right' : 'left')
+        : (dy > 0 ? 'down' : 'up');
+
+      this.onGesture({
+        type: 'swipe',
+        timestamp: end.timestamp,
+        data: { direction, distance: travel, velocity: travel / Math.max(1, duration), duration },
+      });
+      return;
+    }
+
+    if (pointer.maxMovement > TAP_MOVEMENT) return;
+
+    if (duration >= LONG_PRESS_DURATION) {
+      this.onGesture({
+        type: 'longpress',
+        timestamp: end.timestamp,
+        data: { duration, movement: pointer.maxMovement },
+      });
+      return;
+    }
+
+    if (duration > TAP_MAX_DURATION) return;
+
+    this.onGesture({
+      type: 'tap',
+      timestamp: end.timestamp,
+      data: {
+        targetSize: pointer.start.target?.targetSize ?? 0,
+        missDistance: pointer.start.target?.missDistance,
+        duration,
+        movement: pointer.maxMovement,
+        accidental: duration < ACCIDENTAL_TAP_DURATION || pointer.maxMovement > TAP_MOVEMENT / 2,
+      },
+      target: pointer.start.target?.element,
+    });
+
+    this.trackRageTaps(pointer.start, end.timestamp);
+  }
+
+  /**
+   * Several rapid taps in the same spot signal frustration with an unresponsive or tiny target
+   */
+  private trackRageTaps(position: PointerSample, timestamp: number) {
+    this.recentTaps = this.recentTaps.filter(tap =>
+      timestamp - tap.timestamp <= RAGE_TAP_WINDOW && distance(tap, position) <= RAGE_TAP_RADIUS
+    );
+    this.recentTaps.push({ x: position.x, y: position.y, timestamp });
+
+    if (this.recentTaps.length < RAGE_TAP_COUNT) return;
+
+    const radius = Math.max(...this.recentTaps.map(tap => distance(tap, position)));
+    this.onGesture({
+      type: 'ragetap',
+      timestamp,
+      data: {
+        tapCount: this.recentTaps.length,
+        duration: timestamp - this.recentTaps[0].timestamp,
+        radius,
+      },
+    });
+    this.recentTaps = [];
+  }
+
+  private pointerDistance(): number {
+    const [a, b] = Array.from(this.pointers.values());
+    return a && b ? distance(a.last, b.last) : 0;
+  }
+}
+
+function distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+}
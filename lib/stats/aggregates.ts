@@ -0,0 +1,165 @@
+/**
+ * Streaming Signal Aggregates
+ *
+ * Keeps decaying summaries of the live signal stream for the whole genome,
+ * for each temporal context and for each device partition, updated in O(1)
+ * per signal. Inference reads the summaries instead of re-scanning a signal
+ * window, so the effective window can grow to hours at constant cost. A ring
+ * buffer of recent raw signals remains for traits that need them.
+ */
+
+import { SignalCollection, SignalDeviceContext, TemporalContextKey } from '@/types/genome';
+import { getActiveContexts, groupSignalsByContext } from '@/lib/context/temporal';
+import { getPartitionKey, groupSignalsByPartition } from '@/lib/context/device';
+import { RingBuffer } from './ring';
+import { SignalSummarizer, SignalSummary, summarizeSignals } from './summary';
+
+export const DEFAULT_HALF_LIFE = 20000; // ms, weighs behavior roughly like the previous 30s window
+
+export interface SignalSource {
+  summary: SignalSummary;
+  getSignals(): SignalCollection[]; // raw signals, only for traits without summary-based inference
+  device?: SignalDeviceContext; // set for device partitions
+}
+
+export interface InferenceSources {
+  global: SignalSource;
+  contexts: Map<TemporalContextKey, SignalSource>;
+  partitions: Map<string, SignalSource>;
+}
+
+export interface SignalAggregatesOptions {
+  halfLifeMs?: number;
+  bufferSize?: number; // raw signals kept for traits that need them
+}
+
+export class SignalAggregates {
+  private readonly halfLifeMs: number;
+  private buffer: RingBuffer<SignalCollection>;
+  private global: SignalSummarizer;
+  private contexts = new Map<TemporalContextKey, SignalSummarizer>();
+  private partitions = new Map<string, { summary: SignalSummarizer; device: SignalDeviceContext }>();
+  // Sub-profiles that received signals since the last inference pass
+  private dirtyContexts = new Set<TemporalContextKey>();
+  private dirtyPartitions = new Set<string>();
+  private lastSignalAt = 0;
+
+  constructor(options: SignalAggregatesOptions = {}) {
+    this.halfLifeMs = options.halfLifeMs ?? DEFAULT_HALF_LIFE;
+    this.buffer = new RingBuffer(options.bufferSize ?? 1000);
+    this.global = new SignalSummarizer(this.halfLifeMs);
+  }
+
+  observe(signal: SignalCollection) {
+    this.buffer.push(signal);
+    this.global.observe(signal);
+    this.lastSignalAt = signal.timestamp;
+
+    getActiveContexts(signal.timestamp).forEach((key) => {
+      this.summarizer(this.contexts, key).observe(signal);
+      this.dirtyContexts.add(key);
+    });
+
+    if (signal.device) {
+      const key = getPartitionKey(signal.device);
+      let partition = this.partitions.get(key);
+      if (!partition) {
+        partition = { summary: new SignalSummarizer(this.halfLifeMs), device: { ...signal.device } };
+        this.partitions.set(key, partition);
+      }
+      partition.summary.observe(signal);
+      this.dirtyPartitions.add(key);
+    }
+  }
+
+  /**
+   * Whether any signal arrived within `windowMs` of `now`
+   */
+  hasRecentSignals(windowMs: number, now: number): boolean {
+    return this.buffer.size > 0 && this.lastSignalAt >= now - windowMs;
+  }
+
+  getRecentSignals(windowMs: number, now: number): SignalCollection[] {
+    const cutoff = now - windowMs;
+    return this.buffer.takeLastWhile(signal => signal.timestamp >= cutoff);
+  }
+
+  /**
+   * Summaries to infer from at `now`: the global one, plus the contexts and
+   * partitions that saw signals since the previous call. Traits that need raw
+   * signals get the last `windowMs` of them.
+   */
+  takeSources(now: number, windowMs: number): InferenceSources {
+    const recent = () => this.getRecentSignals(windowMs, now);
+
+    this.global.advanceTo(now);
+    const sources: InferenceSources = {
+      global: { summary: this.global, getSignals: recent },
+      contexts: new Map(),
+      partitions: new Map(),
+    };
+
+    this.dirtyContexts.forEach((key) => {
+      const summary = this.contexts.get(key)!;
+      summary.advanceTo(now);
+      sources.contexts.set(key, {
+        summary,
+        getSignals: () => recent().filter(s => getActiveContexts(s.timestamp).includes(key)),
+      });
+    });
+
+    this.dirtyPartitions.forEach((key) => {
+      const { summary, device } = this.partitions.get(key)!;
+      summary.advanceTo(now);
+      sources.partitions.set(key, {
+        summary,
+        device,
+        getSignals: () => recent().filter(s => s.device && getPartitionKey(s.device) === key),
+      });
+    });
+
+    this.dirtyContexts.clear();
+    this.dirtyPartitions.clear();
+    return sources;
+  }
+
+  reset() {
+    this.buffer.clear();
+    this.global.reset();
+    this.contexts.clear();
+    this.partitions.clear();
+    this.dirtyContexts.clear();
+    this.dirtyPartitions.clear();
+    this.lastSignalAt = 0;
+  }
+
+  private summarizer<K>(map: Map<K, SignalSummarizer>, key: K): SignalSummarizer {
+    let summary = map.get(key);
+    if (!summary) {
+      summary = new SignalSummarizer(this.halfLifeMs);
+      map.set(key, summary);
+    }
+    return summary;
+  }
+}
+
+/**
+ * Sources for a plain signal window (no decay), as used by replay
+ */
+export function sourcesFromSignals(signals: SignalCollection[]): InferenceSources {
+  const contexts = new Map<TemporalContextKey, SignalSource>();
+  groupSignalsByContext(signals).forEach((group, key) => {
+    contexts.set(key, { summary: summarizeSignals(group), getSignals: () => group });
+  });
+
+  const partitions = new Map<string, SignalSource>();
+  groupSignalsByPartition(signals).forEach((group, key) => {
+    partitions.set(key, { summary: summarizeSignals(group), getSignals: () => group, device: group[0].device });
+  });
+
+  return {
+    global: { summary: summarizeSignals(signals), getSignals: () => signals },
+    contexts,
+    partitions,
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Exponentially Decaying Statistics
+ *
+ * Running count, mean, variance and percentiles where each sample's weight
+ * halves every `halfLifeMs`. Updates and reads are O(1) (percentiles scan a
+ * fixed number of bins), so the effective window can span hours without
+ * keeping the samples. A half-life of 0 disables decay.
+ *
+ * Decay is applied lazily: samples are stored with weight e^(λ·(t - t0)) and
+ * reads scale by e^(-λ·(now - t0)), rebasing t0 before weights overflow.
+ */
+
+const BINS_PER_OCTAVE = 4; // percentile resolution ≈ ±9%
+const BIN_COUNT = 96; // covers 0 .. 2^24
+const REBASE_LIMIT = 1e100;
+
+export interface MetricStats {
+  count: number; // decayed number of samples
+  sum: number; // decayed sum of values
+  mean: number;
+  variance: number;
+  percentile(p: number): number; // p in 0-1, approximate
+}
+
+export class DecayingStat implements MetricStats {
+  private readonly lambda: number;
+  private origin = 0; // t0
+  private readAt = 0; // time reads are evaluated at
+  private weight = 0;
+  private weightedSum = 0;
+  private weightedSquares = 0;
+  private bins = new Float64Array(BIN_COUNT);
+
+  constructor(halfLifeMs: number = 0) {
+    this.lambda = halfLifeMs > 0 ? Math.LN2 / halfLifeMs : 0;
+  }
+
+  add(value: number, timestamp: number) {
+    if (this.weight === 0) this.origin = timestamp;
+
+    let w = Math.exp(this.lambda * (timestamp - this.origin));
+    if (w > REBASE_LIMIT) {
+      this.rebase(timestamp);
+      w = 1;
+    }
+
+    this.weight += w;
+    this.weightedSum += w * value;
+    this.weightedSquares += w * value * value;
+    this.bins[binIndex(value)] += w;
+    this.readAt = Math.max(this.readAt, timestamp);
+  }
+
+  /**
+   * Evaluate reads at `now` (defaults to the newest sample's time)
+   */
+  advanceTo(now: number) {
+    this.readAt = Math.max(this.readAt, now);
+  }
+
+  get count(): number {
+    return this.weight * this.readScale();
+  }
+
+  get sum(): number {
+    return this.weightedSum * this.readScale();
+  }
+
+  get mean(): number {
+    return this.weight > 0 ? this.weightedSum / this.weight : 0;
+  }
+
+  get variance(): number {
+    if (this.weight === 0) return 0;
+    const mean = this.mean;
+    return Math.max(0, this.weightedSquares / this.weight - mean * mean);
+  }
+
+  percentile(p: number): number {
+    if (this.weight === 0) return 0;
+
+    const target = Math.max(0, Math.min(1, p)) * this.weight;
+    let cumulative = 0;
+    for (let i = 0; i < BIN_COUNT; i++) {
+      cumulative += this.bins[i];
+      if (cumulative >= target && this.bins[i] > 0) return binValue(i);
+    }
+    return binValue(BIN_COUNT - 1);
+  }
+
+  reset() {
+    this.weight = 0;
+    this.weightedSum = 0;
+    this.weightedSquares = 0;
+    this.bins.fill(0);
+    this.readAt = 0;
+  }
+
+  private readScale(): number {
+    return this.lambda > 0 ? Math.exp(-this.lambda * (this.readAt - this.origin)) : 1;
+  }
+
+  private rebase(timestamp: number) {
+    const scale = Math.exp(-this.lambda * (timestamp - this.origin));
+    this.weight *= scale;
+    this.weightedSum *= scale;
+    this.weightedSquares *= scale;
+    for (let i = 0; i < BIN_COUNT; i++) this.bins[i] *= scale;
+    this.origin = timestamp;
+  }
+}
+
+// Log-scale bins: 0 gets its own bin, then BINS_PER_OCTAVE bins per doubling
+function binIndex(value: number): number {
+  if (value <= 0) return 0;
+  const index = 1 + Math.floor(Math.log2(value + 1) * BINS_PER_OCTAVE);
+  return Math.min(BIN_COUNT - 1, index);
+}
+
+function binValue(index: number): number {
+  if (index === 0) return 0;
+  // Geometric middle of the bin
+  return Math.pow(2, (index - 0.5) / BINS_PER_OCTAVE) - 1;
+}
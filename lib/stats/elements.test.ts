@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClickSignal } from '@/types/genome';
+import { ElementAggregates, describeElement } from './elements';
+import { summarizeSignals } from './summary';
+
+function click(timestamp: number, data: Partial<ClickSignal['data']> = {}): ClickSignal {
+  return {
+    type: 'click',
+    timestamp,
+    data: { targetSize: 1600, correctionCount: 0, timeToClick: 400, ...data },
+    target: { id: 'checkout' },
+  };
+}
+
+test('misses and time to click are attributed to the aimed-at element', () => {
+  const elements = new ElementAggregates();
+  elements.observe(click(0));
+  elements.observe(click(1000, { missDistance: 30 }));
+
+  const stats = describeElement(elements.get('checkout')!);
+  assert.equal(stats.samples, 2);
+  assert.equal(stats.missRate, 0.5);
+  assert.equal(stats.meanMissDistance, 30);
+});
+
+test('clicks from Enter or Space are not counted against the element', () => {
+  const elements = new ElementAggregates();
+  elements.observe(click(0));
+  elements.observe(click(1000, { targetSize: 0, timeToClick: 0, keyboard: true }));
+
+  const stats = elements.get('checkout')!;
+  assert.equal(stats.hits, 1);
+  assert.equal(stats.misses, 0);
+  assert.equal(stats.clickTimeCount, 1);
+});
+
+test('keyboard clicks are left out of the click summary', () => {
+  const summary = summarizeSignals([
+    click(0),
+    click(1000, { targetSize: 0, timeToClick: 0, keyboard: true }),
+  ]);
+
+  assert.equal(Math.round(summary.count('click')), 1);
+  assert.equal(summary.metric('hit.missed').sum, 0);
+});
@@ -0,0 +1,168 @@
+/**
+ * Per-Element Aggregates
+ *
+ * Running statistics for elements that opted in with `data-genome-id`:
+ * how often they are missed and by how far, how long users take to click
+ * them, and how long they linger over them. Plain sums, so a snapshot can
+ * be stored and resumed. Feeds the "hardest to hit" and "most hesitated
+ * over" reports and element-level adaptations.
+ */
+
+import { SignalCollection } from '@/types/genome';
+
+export interface ElementStats {
+  id: string;
+  role?: string;
+  hits: number; // clicks and aimed taps
+  misses: number; // hits that landed outside the element
+  missDistanceSum: number; // px, over misses
+  clickTimeCount: number; // clicks with a measured time to click
+  clickTimeSum: number; // ms
+  hovers: number;
+  dwellSum: number; // ms
+  lastSeen: number;
+}
+
+export interface ElementReportEntry {
+  id: string;
+  role?: string;
+  samples: number;
+  missRate: number;
+  meanMissDistance: number; // px, over misses
+  meanHesitation: number; // ms, mean of hover dwell and time to click
+}
+
+export interface ElementReportOptions {
+  limit?: number;
+  minSamples?: number; // interactions an element needs before it is ranked
+}
+
+const MAX_ELEMENTS = 200; // least recently seen elements are dropped beyond this
+
+export class ElementAggregates {
+  private stats = new Map<string, ElementStats>();
+
+  constructor(snapshot: Record<string, ElementStats> = {}) {
+    Object.values(snapshot).forEach(stats => this.stats.set(stats.id, { ...stats }));
+  }
+
+  /**
+   * Fold an attributed click, tap or hover into its element's statistics
+   */
+  observe(signal: SignalCollection) {
+    const { target } = signal;
+    if (!target) return;
+    if (signal.type !== 'click' && signal.type !== 'tap' && signal.type !== 'hover') return;
+    if (signal.type === 'tap' && signal.data.targetSize === 0) return;
+    // Keyboard activation isn't aimed, so it says nothing about how hard the element is to hit
+    if (signal.type === 'click' && signal.data.keyboard) return;
+
+    const stats = this.stats.get(target.id) ?? createStats(target.id);
+    if (target.role) stats.role = target.role;
+    stats.lastSeen = signal.timestamp;
+
+    if (signal.type === 'hover') {
+      stats.hovers += 1;
+      stats.dwellSum += signal.data.dwellTime;
+    } else {
+      const { missDistance } = signal.data;
+      stats.hits += 1;
+      if (missDistance && missDistance > 0) {
+        stats.misses += 1;
+        stats.missDistanceSum += missDistance;
+      }
+      if (signal.type === 'click' && signal.data.timeToClick > 0) {
+        stats.clickTimeCount += 1;
+        stats.clickTimeSum += signal.data.timeToClick;
+      }
+    }
+
+    this.stats.set(target.id, stats);
+    if (this.stats.size > MAX_ELEMENTS) this.evict();
+  }
+
+  get(id: string): ElementStats | undefined {
+    return this.stats.get(id);
+  }
+
+  /**
+   * Serializable copy, e.g. for the store
+   */
+  snapshot(): Record<string, ElementStats> {
+    const snapshot: Record<string, ElementStats> = {};
+    this.stats.forEach((stats, id) => {
+      snapshot[id] = { ...stats };
+    });
+    return snapshot;
+  }
+
+  reset() {
+    this.stats.clear();
+  }
+
+  private evict() {
+    let oldest: ElementStats | undefined;
+    this.stats.forEach((stats) => {
+      if (!oldest || stats.lastSeen < oldest.lastSeen) oldest = stats;
+    });
+    if (oldest) this.stats.delete(oldest.id);
+  }
+}
+
+/**
+ * Derived rates for one element
+ */
+export function describeElement(stats: ElementStats): ElementReportEntry {
+  const hesitationSamples = stats.hovers + stats.clickTimeCount;
+  return {
+    id: stats.id,
+    role: stats.role,
+    samples: stats.hits + stats.hovers,
+    missRate: stats.hits > 0 ? stats.misses / stats.hits : 0,
+    meanMissDistance: stats.misses > 0 ? stats.missDistanceSum / stats.misses : 0,
+    meanHesitation: hesitationSamples > 0 ? (stats.dwellSum + stats.clickTimeSum) / hesitationSamples : 0,
+  };
+}
+
+/**
+ * Elements missed most often, then by the widest margin
+ */
+export function hardestToHit(
+  stats: Record<string, ElementStats>,
+  { limit = 5, minSamples = 5 }: ElementReportOptions = {}
+): ElementReportEntry[] {
+  return Object.values(stats)
+    .filter(s => s.hits >= minSamples)
+    .map(describeElement)
+    .filter(entry => entry.missRate > 0)
+    .sort((a, b) => b.missRate - a.missRate || b.meanMissDistance - a.meanMissDistance)
+    .slice(0, limit);
+}
+
+/**
+ * Elements users linger over longest before acting
+ */
+export function mostHesitatedOver(
+  stats: Record<string, ElementStats>,
+  { limit = 5, minSamples = 5 }: ElementReportOptions = {}
+): ElementReportEntry[] {
+  return Object.values(stats)
+    .filter(s => s.hovers + s.clickTimeCount >= minSamples)
+    .map(describeElement)
+    .sort((a, b) => b.meanHesitation - a.meanHesitation)
+    .slice(0, limit);
+}
+
+function createStats(id: string): ElementStats {
+  return {
+    id,
+    hits: 0,
+    misses: 0,
+    missDistanceSum: 0,
+    clickTimeCount: 0,
+    clickTimeSum: 0,
+    hovers: 0,
+    dwellSum: 0,
+    lastSeen: 0,
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Ring Buffer
+ *
+ * Fixed-capacity FIFO: pushing into a full buffer overwrites the oldest
+ * entry in O(1), unlike Array.prototype.shift.
+ */
+
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private length = 0;
+
+  constructor(readonly capacity: number) {
+    if (capacity < 1) {
+      throw new Error('Ring buffer capacity must be at least 1');
+    }
+    this.items = new Array(capacity);
+  }
+
+  get size(): number {
+    return this.length;
+  }
+
+  push(item: T) {
+    const end = (this.start + this.length) % this.capacity;
+    this.items[end] = item;
+
+    if (this.length < this.capacity) {
+      this.length++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Entries from oldest to newest
+   */
+  toArray(): T[] {
+    const result: T[] = [];
+    for (let i = 0; i < this.length; i++) {
+      result.push(this.items[(this.start + i) % this.capacity] as T);
+    }
+    return result;
+  }
+
+  /**
+   * Newest entries matching `predicate`, stopping at the first (newest-first) entry that doesn't.
+   * Useful for time windows over chronologically ordered entries.
+   */
+  takeLastWhile(predicate: (item: T) => boolean): T[] {
+    const result: T[] = [];
+    for (let i = this.length - 1; i >= 0; i--) {
+      const item = this.items[(this.start + i) % this.capacity] as T;
+      if (!predicate(item)) break;
+      result.push(item);
+    }
+    return result.reverse();
+  }
+
+  clear() {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.length = 0;
+  }
+}
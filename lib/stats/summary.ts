@@ -0,0 +1,194 @@
+/**
+ * Signal Summaries
+ *
+ * The per-signal-type statistics trait inference reads, maintained one signal
+ * at a time. `summarizeSignals` builds one from a plain signal array (no
+ * decay); SignalAggregates keeps decaying summaries over a live stream.
+ */
+
+import { SignalCollection, SwipeSignal } from '@/types/genome';
+import { DecayingStat, MetricStats } from './decaying';
+
+export type SignalType = SignalCollection['type'];
+
+export type SignalMetric =
+  | 'click.timeToClick'
+  | 'click.correctionCount'
+  | 'hit.targetSize' // clicks and aimed taps
+  | 'hit.missed' // 1 when the hit landed outside its target
+  | 'hit.farMiss' // 1 when it missed by more than 5px
+  | 'cursor.jitter'
+  | 'cursor.velocity'
+  | 'scroll.reversing' // 1 when more than two reversals in a row
+  | 'scroll.oscillating' // 1 when more than one reversal in a row
+  | 'scroll.interval' // ms since the previous scroll
+  | 'hover.dwellTime'
+  | 'hover.triggered' // 1 when the hovered element was clicked or focused
+  | 'hover.actedDwell' // dwell of hovers that ended in an action
+  | 'focus.rapid' // 1 when focus moved again within 500ms
+  | 'focus.visible' // 1 when the focus ring showed after keyboard input
+  | 'focus.viaTab' // 1 when a Tab press moved focus
+  | 'keyboard.action' // 1 when the key navigated or was a shortcut rather than typing
+  | 'keyboard.shortcut' // 1 when pressed with Ctrl, Alt or Meta
+  | 'tap.accidental'
+  | 'swipe.reversal' // 1 when the swipe reverses the previous one within 1s
+  | 'pinch.zoomIn'
+  | 'tooltip.visibleDuration'
+  | 'tooltip.read'; // 1 when the tooltip stayed up long enough to read
+
+export interface SignalSummary {
+  total: number; // decayed number of signals of any type
+  count(type: SignalType): number;
+  metric(name: SignalMetric): MetricStats;
+}
+
+const RAPID_FOCUS_INTERVAL = 500; // ms
+const SWIPE_REVERSAL_INTERVAL = 1000; // ms
+const TOOLTIP_READ_TIME = 1000; // ms a tooltip must stay visible to count as read
+
+const OPPOSITE_SWIPE: Record<SwipeSignal['data']['direction'], SwipeSignal['data']['direction']> = {
+  up: 'down',
+  down: 'up',
+  left: 'right',
+  right: 'left',
+};
+
+export class SignalSummarizer implements SignalSummary {
+  private totals: DecayingStat;
+  private counts = new Map<SignalType, DecayingStat>();
+  private metrics = new Map<SignalMetric, DecayingStat>();
+  private lastFocus = 0;
+  private lastScroll = 0;
+  private lastSwipe: SwipeSignal | null = null;
+  private static readonly EMPTY = new DecayingStat();
+
+  constructor(private halfLifeMs: number = 0) {
+    this.totals = new DecayingStat(halfLifeMs);
+  }
+
+  get total(): number {
+    return this.totals.count;
+  }
+
+  count(type: SignalType): number {
+    return this.counts.get(type)?.count ?? 0;
+  }
+
+  metric(name: SignalMetric): MetricStats {
+    return this.metrics.get(name) ?? SignalSummarizer.EMPTY;
+  }
+
+  /**
+   * Fold one signal into the summary. Signals must arrive in time order.
+   */
+  observe(signal: SignalCollection) {
+    // Enter or Space on a control: the key press itself is summarized as a keyboard signal
+    if (signal.type === 'click' && signal.data.keyboard) return;
+
+    const t = signal.timestamp;
+    this.totals.add(1, t);
+    this.stat(this.counts, signal.type).add(1, t);
+
+    switch (signal.type) {
+      case 'click':
+        this.record('click.timeToClick', signal.data.timeToClick, t);
+        this.record('click.correctionCount', signal.data.correctionCount, t);
+        this.recordHit(signal.data.targetSize, signal.data.missDistance, t);
+        break;
+      case 'tap':
+        this.record('tap.accidental', signal.data.accidental ? 1 : 0, t);
+        // Taps with no interactive element nearby weren't aimed at anything
+        if (signal.data.targetSize > 0) {
+          this.recordHit(signal.data.targetSize, signal.data.missDistance, t);
+        }
+        break;
+      case 'cursor':
+        this.record('cursor.jitter', signal.data.jitter, t);
+        this.record('cursor.velocity', signal.data.velocity, t);
+        break;
+      case 'scroll':
+        this.record('scroll.reversing', signal.data.reversalCount > 2 ? 1 : 0, t);
+        this.record('scroll.oscillating', signal.data.reversalCount > 1 ? 1 : 0, t);
+        if (this.lastScroll) this.record('scroll.interval', t - this.lastScroll, t);
+        this.lastScroll = t;
+        break;
+      case 'hover':
+        this.record('hover.dwellTime', signal.data.dwellTime, t);
+        this.record('hover.triggered', signal.data.triggered ? 1 : 0, t);
+        if (signal.data.triggered) this.record('hover.actedDwell', signal.data.dwellTime, t);
+        break;
+      case 'focus':
+        this.record('focus.rapid', this.lastFocus && t - this.lastFocus < RAPID_FOCUS_INTERVAL ? 1 : 0, t);
+        this.record('focus.visible', signal.data.focusVisible ? 1 : 0, t);
+        this.record('focus.viaTab', signal.data.viaTab ? 1 : 0, t);
+        this.lastFocus = t;
+        break;
+      case 'keyboard':
+        this.record('keyboard.action', signal.data.category === 'navigation' || signal.data.shortcut ? 1 : 0, t);
+        this.record('keyboard.shortcut', signal.data.shortcut ? 1 : 0, t);
+        break;
+      case 'swipe': {
+        const previous = this.lastSwipe;
+        const reversed = !!previous
+          && signal.data.direction === OPPOSITE_SWIPE[previous.data.direction]
+          && t - previous.timestamp < SWIPE_REVERSAL_INTERVAL;
+        this.record('swipe.reversal', reversed ? 1 : 0, t);
+        this.lastSwipe = signal;
+        break;
+      }
+      case 'pinch':
+        this.record('pinch.zoomIn', signal.data.scale > 1 ? 1 : 0, t);
+        break;
+      case 'tooltipdismissed':
+        this.record('tooltip.visibleDuration', signal.data.visibleDuration, t);
+        this.record('tooltip.read', signal.data.visibleDuration >= TOOLTIP_READ_TIME ? 1 : 0, t);
+        break;
+    }
+  }
+
+  /**
+   * Evaluate decayed counts at `now` rather than at the newest signal
+   */
+  advanceTo(now: number) {
+    this.totals.advanceTo(now);
+    this.counts.forEach(stat => stat.advanceTo(now));
+    this.metrics.forEach(stat => stat.advanceTo(now));
+  }
+
+  reset() {
+    this.totals.reset();
+    this.counts.clear();
+    this.metrics.clear();
+    this.lastFocus = 0;
+    this.lastScroll = 0;
+    this.lastSwipe = null;
+  }
+
+  private recordHit(targetSize: number, missDistance: number | undefined, t: number) {
+    this.record('hit.targetSize', targetSize, t);
+    this.record('hit.missed', missDistance && missDistance > 0 ? 1 : 0, t);
+    this.record('hit.farMiss', missDistance && missDistance > 5 ? 1 : 0, t);
+  }
+
+  private record(name: SignalMetric, value: number, t: number) {
+    this.stat(this.metrics, name).add(value, t);
+  }
+
+  private stat<K>(map: Map<K, DecayingStat>, key: K): DecayingStat {
+    let stat = map.get(key);
+    if (!stat) {
+      stat = new DecayingStat(this.halfLifeMs);
+      map.set(key, stat);
+    }
+    return stat;
+  }
+}
+
+/**
+ * Summarize a signal array without decay (every signal counts once)
+ */
+export function summarizeSignals(signals: SignalCollection[]): SignalSummary {
+  const summarizer = new SignalSummarizer();
+  signals.forEach(signal => summarizer.observe(signal));
+  return summarizer;
+}
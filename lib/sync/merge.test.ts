@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UXGenome, TraitMetadata } from '@/types/genome';
+import { DEFAULT_GENOME } from '@/store/genomeStore';
+import { mergeGenomes } from './merge';
+import { GenomeSync, hasSyncableChanges } from './sync';
+import { InMemorySyncHub } from './transports';
+
+const NOW = 1_700_000_000_000;
+
+function withMotion(value: UXGenome['motionSensitivity'], meta: Partial<TraitMetadata>): UXGenome {
+  return {
+    ...DEFAULT_GENOME,
+    lastUpdated: NOW,
+    motionSensitivity: value,
+    motionSensitivityMeta: { ...DEFAULT_GENOME.motionSensitivityMeta, ...meta },
+  };
+}
+
+const learned = withMotion('high', { confidence: 0.9, sampleCount: 40, state: 'confident', lastUpdated: NOW + 5000 });
+
+test('a trait locked in one tab wins over confident state learned in another', () => {
+  const locked = withMotion('low', { confidence: 0.3, sampleCount: 5, state: 'locked', userActionAt: NOW });
+
+  assert.equal(mergeGenomes(learned, locked).motionSensitivity, 'low');
+  assert.equal(mergeGenomes(locked, learned).motionSensitivity, 'low');
+});
+
+test('a later unlock spreads over the lock', () => {
+  const locked = withMotion('low', { state: 'locked', userActionAt: NOW });
+  const unlocked = withMotion('low', { state: 'tentative', userActionAt: NOW + 1000 });
+
+  assert.equal(mergeGenomes(locked, unlocked).motionSensitivityMeta.state, 'tentative');
+  assert.equal(mergeGenomes(unlocked, locked).motionSensitivityMeta.state, 'tentative');
+});
+
+test('a reset wins over state learned before it', () => {
+  const reset = withMotion('medium', { confidence: 0, sampleCount: 0, state: 'observing', userActionAt: NOW + 1000 });
+  const stale = withMotion('high', { confidence: 0.9, sampleCount: 40, state: 'confident', lastUpdated: NOW, userActionAt: NOW });
+
+  assert.equal(mergeGenomes(stale, reset).motionSensitivity, 'medium');
+});
+
+test('learning after a user action is merged by confidence again', () => {
+  const unlocked = withMotion('low', { confidence: 0.3, sampleCount: 5, state: 'tentative', userActionAt: NOW });
+  const relearned = withMotion('high', { confidence: 0.9, sampleCount: 40, state: 'confident', userActionAt: NOW });
+
+  assert.equal(mergeGenomes(unlocked, relearned).motionSensitivity, 'high');
+});
+
+test('a peer that merged in newer state publishes it back', () => {
+  const hub = new InMemorySyncHub();
+  const genomes = {
+    a: withMotion('low', { state: 'locked', userActionAt: NOW }),
+    b: learned,
+  };
+  const peer = (name: 'a' | 'b') => new GenomeSync({
+    transports: [hub.connect()],
+    getGenome: () => genomes[name],
+    setGenome: (genome) => { genomes[name] = genome; },
+    sourceId: name,
+    clock: () => NOW,
+  });
+
+  const a = peer('a');
+  const b = peer('b');
+  a.start();
+  b.start();
+
+  // b's publish only reaches a, whose lock must then reach b
+  b.publish();
+
+  assert.equal(genomes.a.motionSensitivity, 'low');
+  assert.equal(genomes.b.motionSensitivity, 'low');
+  assert.equal(genomes.b.motionSensitivityMeta.state, 'locked');
+});
+
+test('peers that learned different traits at the same time converge', () => {
+  const hub = new InMemorySyncHub();
+  const genomes: Record<'a' | 'b', UXGenome> = { a: withMotion('medium', {}), b: withMotion('medium', {}) };
+  const peer = (name: 'a' | 'b') => new GenomeSync({
+    transports: [hub.connect()],
+    getGenome: () => genomes[name],
+    setGenome: (genome) => { genomes[name] = genome; },
+    sourceId: name,
+    clock: () => NOW,
+  });
+
+  const a = peer('a');
+  const b = peer('b');
+  a.start();
+  b.start();
+
+  // Both learn before either hears from the other
+  genomes.a = { ...learned, lastUpdated: NOW + 5000 };
+  genomes.b = {
+    ...genomes.b,
+    lastUpdated: NOW + 6000,
+    guidanceNeed: 'strong',
+    guidanceNeedMeta: { ...DEFAULT_GENOME.guidanceNeedMeta, confidence: 0.8, sampleCount: 30, state: 'confident', lastUpdated: NOW + 6000 },
+  };
+  a.publish();
+  b.publish();
+
+  assert.deepEqual(genomes.a, genomes.b);
+  assert.equal(genomes.a.motionSensitivity, 'high');
+  assert.equal(genomes.a.guidanceNeed, 'strong');
+});
+
+test('derived metrics alone are not worth publishing', () => {
+  const remeasured = { ...learned, clickPrecision: 0.8, hoverDwellTime: 450, lastUpdated: NOW + 9000 };
+
+  assert.equal(hasSyncableChanges(learned, remeasured), false);
+  assert.equal(hasSyncableChanges(learned, { ...remeasured, motionSensitivity: 'low' }), true);
+});
@@ -0,0 +1,123 @@
+/**
+ * Genome Merge
+ *
+ * Conflict resolution for genomes learned in parallel (other tabs, other
+ * devices). Traits are merged one by one instead of last-write-wins, so a
+ * tab that just started observing can't wipe out what another tab learned.
+ * The merge is deterministic and symmetric, so all peers converge.
+ */
+
+import { UXGenome, StoredTraitState, ContextProfile, DevicePartition } from '@/types/genome';
+import { BUILTIN_TRAITS, readTrait, writeTrait } from '@/lib/traits';
+
+const CONFIDENCE_MARGIN = 0.05; // smaller confidence differences count as a tie
+
+/**
+ * Whether trait state `a` should win over `b`: the more recent user action
+ * (lock, unlock, reset, import), then locked, then clearly more confident,
+ * then more observed, then newer.
+ */
+export function prefersTraitState(a: StoredTraitState, b: StoredTraitState): boolean {
+  const aAction = a.meta.userActionAt ?? 0;
+  const bAction = b.meta.userActionAt ?? 0;
+  if (aAction !== bAction) return aAction > bAction;
+
+  const aLocked = a.meta.state === 'locked';
+  const bLocked = b.meta.state === 'locked';
+  if (aLocked !== bLocked) return aLocked;
+
+  if (!aLocked && Math.abs(a.meta.confidence - b.meta.confidence) > CONFIDENCE_MARGIN) {
+    return a.meta.confidence > b.meta.confidence;
+  }
+  if (!aLocked && a.meta.sampleCount !== b.meta.sampleCount) {
+    return a.meta.sampleCount > b.meta.sampleCount;
+  }
+  if (a.meta.lastUpdated !== b.meta.lastUpdated) {
+    return a.meta.lastUpdated > b.meta.lastUpdated;
+  }
+
+  // Full tie: any stable order will do
+  return String(a.value) >= String(b.value);
+}
+
+export function mergeTraitState(a?: StoredTraitState, b?: StoredTraitState): StoredTraitState | undefined {
+  if (!a || !b) return a ?? b;
+  return prefersTraitState(a, b) ? a : b;
+}
+
+/**
+ * Merge two genomes trait by trait
+ */
+export function mergeGenomes(local: UXGenome, remote: UXGenome): UXGenome {
+  // Derived metrics and system state come from the most recently updated genome
+  const newer = local.lastUpdated !== remote.lastUpdated
+    ? (isNewer(remote, local) ? remote : local)
+    : (systemState(remote) > systemState(local) ? remote : local);
+  const merged: UXGenome = {
+    ...newer,
+    createdAt: Math.min(local.createdAt, remote.createdAt),
+    lastUpdated: Math.max(local.lastUpdated, remote.lastUpdated),
+  };
+
+  BUILTIN_TRAITS.forEach((definition) => {
+    const winner = mergeTraitState(readTrait(local, definition), readTrait(remote, definition))!;
+    writeTrait(merged, merged, definition, winner);
+  });
+
+  // Unregistered custom traits are merged too, so they survive in apps that don't know them
+  merged.customTraits = mergeRecords(local.customTraits, remote.customTraits, mergeTraitState);
+  merged.contextProfiles = mergeRecords(local.contextProfiles, remote.contextProfiles, mergeProfile);
+  merged.devicePartitions = mergeRecords(local.devicePartitions, remote.devicePartitions, mergePartition);
+
+  return merged;
+}
+
+function mergeProfile<P extends ContextProfile>(a?: P, b?: P): P | undefined {
+  if (!a || !b) return a ?? b;
+
+  return {
+    ...(isNewer(b, a) ? b : a),
+    traits: mergeRecords(a.traits, b.traits, mergeTraitState),
+    sampleCount: Math.max(a.sampleCount, b.sampleCount),
+    lastUpdated: Math.max(a.lastUpdated, b.lastUpdated),
+  };
+}
+
+function mergePartition(a?: DevicePartition, b?: DevicePartition): DevicePartition | undefined {
+  const merged = mergeProfile(a, b);
+  if (!a || !b || !merged) return merged;
+
+  // The partition with more observations has the more reliable derived metrics
+  const source = a.sampleCount !== b.sampleCount
+    ? (a.sampleCount > b.sampleCount ? a : b)
+    : (isNewer(b, a) ? b : a);
+  return { ...merged, clickPrecision: source.clickPrecision, cursorSmoothness: source.cursorSmoothness };
+}
+
+function mergeRecords<T>(
+  a: Partial<Record<string, T>> | undefined,
+  b: Partial<Record<string, T>> | undefined,
+  mergeEntry: (a?: T, b?: T) => T | undefined
+): Record<string, T> {
+  const merged: Record<string, T> = {};
+  new Set([...Object.keys(a ?? {}), ...Object.keys(b ?? {})]).forEach((key) => {
+    const entry = mergeEntry(a?.[key], b?.[key]);
+    if (entry) merged[key] = entry;
+  });
+  return merged;
+}
+
+// Everything mergeGenomes takes from one side as a whole, for a stable tie-break
+function systemState(genome: UXGenome): string {
+  const { customTraits, contextProfiles, devicePartitions, ...rest } = genome;
+  const state: Record<string, unknown> = { ...rest };
+  BUILTIN_TRAITS.forEach((definition) => {
+    delete state[definition.key];
+    delete state[`${definition.key}Meta`];
+  });
+  return JSON.stringify(state);
+}
+
+function isNewer(a: { lastUpdated: number }, b: { lastUpdated: number }): boolean {
+  return a.lastUpdated > b.lastUpdated;
+}
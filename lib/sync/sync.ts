@@ -0,0 +1,109 @@
+/**
+ * Genome Sync
+ *
+ * Publishes local genome changes to every transport and merges snapshots
+ * received from other peers into the local genome.
+ */
+
+import { UXGenome } from '@/types/genome';
+import { validateGenome } from '@/lib/schema/genome';
+import { migrateGenome } from '@/lib/schema/migrations';
+import { mergeGenomes } from './merge';
+import { SyncMessage, SyncTransport } from './transports';
+
+// Recomputed from signals on every inference pass; on their own not worth sending
+const DERIVED_FIELDS: (keyof UXGenome)[] = [
+  'lastUpdated', 'clickPrecision', 'cursorSmoothness', 'scrollBehavior', 'hoverDwellTime', 'navigationDepthTolerance',
+];
+
+/**
+ * Whether `next` differs from `previous` in more than its derived metrics,
+ * i.e. whether peers have anything to merge from it
+ */
+export function hasSyncableChanges(previous: UXGenome, next: UXGenome): boolean {
+  const shared = (genome: UXGenome) => {
+    const copy: Partial<UXGenome> = { ...genome };
+    DERIVED_FIELDS.forEach(field => delete copy[field]);
+    return JSON.stringify(copy);
+  };
+  return shared(previous) !== shared(next);
+}
+
+export interface GenomeSyncOptions {
+  transports: SyncTransport[];
+  getGenome: () => UXGenome;
+  setGenome: (genome: UXGenome) => void;
+  sourceId?: string; // unique per peer, generated when omitted
+  clock?: () => number;
+}
+
+export class GenomeSync {
+  readonly sourceId: string;
+  private unsubscribers: (() => void)[] = [];
+  private clock: () => number;
+
+  constructor(private options: GenomeSyncOptions) {
+    this.sourceId = options.sourceId ?? createSourceId();
+    this.clock = options.clock ?? Date.now;
+  }
+
+  start() {
+    if (this.unsubscribers.length > 0) return;
+    this.unsubscribers = this.options.transports.map(transport =>
+      transport.subscribe(message => this.receive(message))
+    );
+  }
+
+  stop() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Send the local genome to all peers
+   */
+  publish(genome: UXGenome = this.options.getGenome()) {
+    const message: SyncMessage = { sourceId: this.sourceId, sentAt: this.clock(), genome };
+    this.options.transports.forEach((transport) => {
+      Promise.resolve(transport.send(message)).catch(() => {
+        // A failing transport must not stop the others; the next publish retries
+      });
+    });
+  }
+
+  /**
+   * Merge a peer's snapshot. Returns whether the local genome changed.
+   * When the snapshot lacks something this peer has (e.g. a lock made here),
+   * the merged genome is published back so every peer converges on it.
+   */
+  receive(message: SyncMessage): boolean {
+    if (message.sourceId === this.sourceId) return false;
+
+    let migrated: Record<string, unknown>;
+    try {
+      migrated = migrateGenome(message.genome);
+    } catch {
+      return false;
+    }
+    if (validateGenome(migrated).length > 0) return false;
+    const remote = migrated as unknown as UXGenome;
+
+    const local = this.options.getGenome();
+    const merged = mergeGenomes(local, remote);
+    const changed = JSON.stringify(merged) !== JSON.stringify(local);
+    if (changed) {
+      this.options.setGenome(merged);
+    }
+    if (JSON.stringify(merged) !== JSON.stringify(remote)) {
+      this.publish(merged);
+    }
+    return changed;
+  }
+}
+
+function createSourceId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
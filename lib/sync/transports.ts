@@ -0,0 +1,167 @@
+/**
+ * Sync Transports
+ *
+ * Pluggable channels that carry genome snapshots between peers. Tabs talk
+ * over BroadcastChannel (falling back to storage events); apps can plug in a
+ * backend with FetchTransport or their own SyncTransport. InMemorySyncHub
+ * connects peers inside one process, e.g. for tests.
+ */
+
+import { UXGenome } from '@/types/genome';
+
+export interface SyncMessage {
+  sourceId: string; // peer that sent the snapshot
+  sentAt: number;
+  genome: UXGenome;
+}
+
+export interface SyncTransport {
+  send(message: SyncMessage): void | Promise<void>;
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+  close?(): void;
+}
+
+const DEFAULT_CHANNEL = 'ux-genome-sync';
+
+/**
+ * Same-origin tabs via BroadcastChannel
+ */
+export class BroadcastChannelTransport implements SyncTransport {
+  private channel: BroadcastChannel;
+
+  constructor(name: string = DEFAULT_CHANNEL) {
+    this.channel = new BroadcastChannel(name);
+  }
+
+  send(message: SyncMessage) {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(listener: (message: SyncMessage) => void) {
+    const onMessage = (event: MessageEvent) => listener(event.data as SyncMessage);
+    this.channel.addEventListener('message', onMessage);
+    return () => this.channel.removeEventListener('message', onMessage);
+  }
+
+  close() {
+    this.channel.close();
+  }
+}
+
+/**
+ * Same-origin tabs via `storage` events, for browsers without BroadcastChannel.
+ * The store's persist middleware already writes the genome, so sending is a no-op.
+ */
+export class StorageEventTransport implements SyncTransport {
+  constructor(private storageKey: string) {}
+
+  send() {}
+
+  subscribe(listener: (message: SyncMessage) => void) {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== this.storageKey || !event.newValue) return;
+      try {
+        const genome = JSON.parse(event.newValue).state?.genome;
+        if (genome) listener({ sourceId: 'storage', sentAt: Date.now(), genome });
+      } catch {
+        // Not a genome snapshot
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }
+}
+
+/**
+ * Cross-tab transport for the current browser
+ */
+export function createTabTransport(storageKey: string): SyncTransport | null {
+  if (typeof window === 'undefined') return null;
+  if (typeof BroadcastChannel !== 'undefined') return new BroadcastChannelTransport();
+  return new StorageEventTransport(storageKey);
+}
+
+export interface FetchTransportOptions {
+  pollIntervalMs?: number; // how often to pull the backend's genome (default 60s)
+  headers?: Record<string, string>;
+}
+
+/**
+ * User-supplied backend: POSTs snapshots to `endpoint` and polls it with GET.
+ * The endpoint is expected to return the latest SyncMessage it received (or 204).
+ */
+export class FetchTransport implements SyncTransport {
+  private listeners: ((message: SyncMessage) => void)[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private endpoint: string, private options: FetchTransportOptions = {}) {}
+
+  async send(message: SyncMessage) {
+    await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: JSON.stringify(message),
+    });
+  }
+
+  subscribe(listener: (message: SyncMessage) => void) {
+    this.listeners.push(listener);
+    if (!this.timer) {
+      this.poll();
+      this.timer = setInterval(() => this.poll(), this.options.pollIntervalMs ?? 60000);
+    }
+
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+      if (this.listeners.length === 0) this.close();
+    };
+  }
+
+  close() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll() {
+    try {
+      const response = await fetch(this.endpoint, { headers: this.options.headers });
+      if (!response.ok || response.status === 204) return;
+      const message = await response.json() as SyncMessage;
+      this.listeners.forEach(listener => listener(message));
+    } catch {
+      // Offline or backend unavailable: try again on the next poll
+    }
+  }
+}
+
+/**
+ * In-process hub: every message sent on one connection reaches all the others
+ */
+export class InMemorySyncHub {
+  private connections = new Set<(message: SyncMessage) => void>();
+
+  connect(): SyncTransport {
+    const listeners = new Set<(message: SyncMessage) => void>();
+    const deliver = (message: SyncMessage) => listeners.forEach(listener => listener(message));
+    this.connections.add(deliver);
+
+    return {
+      send: (message) => {
+        // Deliver a copy, like a real channel would
+        const copy = JSON.parse(JSON.stringify(message)) as SyncMessage;
+        this.connections.forEach((connection) => {
+          if (connection !== deliver) connection(copy);
+        });
+      },
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      close: () => {
+        this.connections.delete(deliver);
+      },
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SignalCollection } from '@/types/genome';
+import { summarizeSignals } from '@/lib/stats/summary';
+import { DEFAULT_GENOME } from '@/store/genomeStore';
+import { inputModalityTrait } from './builtin';
+
+// Enter on a focused control, and the click it fires
+function keyboardActivation(timestamp: number): SignalCollection[] {
+  return [
+    { type: 'keyboard', timestamp, data: { category: 'navigation', shortcut: false, timeSinceLastKey: 800, isCorrection: false } },
+    { type: 'click', timestamp: timestamp + 1, data: { targetSize: 0, correctionCount: 0, timeToClick: 0, keyboard: true } },
+  ];
+}
+
+test('clicks fired from the keyboard do not count as pointer actions', () => {
+  const signals = Array.from({ length: 15 }, (_, i) => keyboardActivation(i * 1000)).flat();
+  const result = inputModalityTrait.inferFromSummary?.(summarizeSignals(signals), DEFAULT_GENOME);
+
+  assert.ok(result);
+  assert.notEqual(result.value, 'pointer');
+  assert.equal(result.evidence?.samples.clicks ?? 0, 0);
+});
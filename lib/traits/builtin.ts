@@ -0,0 +1,400 @@
+/**
+ * Built-in Traits
+ *
+ * The core genome traits, expressed as registry definitions.
+ */
+
+import {
+  MotionSensitivity,
+  InteractionSpeed,
+  LayoutDensity,
+  GuidanceNeed,
+  InputModality,
+} from '@/types/genome';
+import { SignalSummary, SignalType, summarizeSignals } from '@/lib/stats/summary';
+import { calculateClickPrecision } from '@/lib/inference/metrics';
+import { TraitDefinition, TraitInferenceResult, TraitRegistry, TraitScale } from './registry';
+import { scoreFactors, classify, buildEvidence } from './evidence';
+
+const MIN_SAMPLES = 10; // Minimum samples before making inferences
+const MIN_TOOLTIPS = 3; // tooltips seen before engagement counts
+
+// Score bands of the categorical traits (scores are 0-1, higher = first label)
+const MOTION_SCALE: TraitScale<MotionSensitivity> = { thresholds: [[0.6, 'high'], [0.3, 'medium']], fallback: 'low' };
+const SPEED_SCALE: TraitScale<InteractionSpeed> = { thresholds: [[0.7, 'fast'], [0.3, 'balanced']], fallback: 'slow' };
+const DENSITY_SCALE: TraitScale<LayoutDensity> = { thresholds: [[0.7, 'compact'], [0.3, 'standard']], fallback: 'spacious' };
+const GUIDANCE_SCALE: TraitScale<GuidanceNeed> = { thresholds: [[0.6, 'strong'], [0.3, 'contextual']], fallback: 'minimal' };
+const MODALITY_SCALE: TraitScale<InputModality> = { thresholds: [[0.6, 'keyboard'], [0.3, 'mixed']], fallback: 'pointer' };
+
+function toScore(score: number): number {
+  return Math.min(1, Math.max(0, score));
+}
+
+/**
+ * Sample counts for evidence, rounded since decayed counts are fractional
+ */
+function countSamples(summary: SignalSummary, types: Record<string, SignalType>): Record<string, number> {
+  const samples: Record<string, number> = {};
+  Object.entries(types).forEach(([label, type]) => {
+    samples[label] = Math.round(summary.count(type));
+  });
+  return samples;
+}
+
+/**
+ * Motion Sensitivity: Based on animation interruptions, scroll reversals, cursor freezes
+ */
+function inferMotionSensitivity(summary: SignalSummary): TraitInferenceResult<MotionSensitivity> | null {
+  const movements = summary.count('scroll') + summary.count('swipe');
+  if (movements < MIN_SAMPLES) return null;
+
+  // High reversal rate suggests motion sensitivity (swipe-backs on touch)
+  const reversalRate = (summary.metric('scroll.reversing').sum + summary.metric('swipe.reversal').sum) / movements;
+
+  // Cursor freezes during movement (simplified: use jitter as proxy for freeze detection)
+  const avgJitter = summary.metric('cursor.jitter').mean;
+
+  // Click corrections during animations (simplified: use correction count)
+  const avgCorrections = summary.metric('click.correctionCount').mean;
+
+  // Accidental taps are the touch equivalent of corrections
+  const accidentalTapRate = summary.metric('tap.accidental').mean;
+
+  // Combine signals
+  const factors = [
+    { key: 'reversalRate', label: 'Scroll and swipe reversal rate', input: reversalRate, unit: 'ratio' as const, subScore: reversalRate, weight: 0.4 },
+    { key: 'avgJitter', label: 'Average cursor jitter', input: avgJitter, unit: 'px' as const, subScore: avgJitter > 10 ? 1 : 0, weight: 0.3 },
+    {
+      key: 'corrections',
+      label: 'Corrections per click',
+      input: Math.max(avgCorrections, accidentalTapRate),
+      unit: 'score' as const,
+      subScore: avgCorrections > 1 || accidentalTapRate > 0.2 ? 1 : 0,
+      weight: 0.3,
+    },
+  ];
+  const sensitivityScore = scoreFactors(factors);
+  const { value, thresholds } = classify(sensitivityScore, MOTION_SCALE.thresholds, MOTION_SCALE.fallback);
+
+  return {
+    value,
+    score: toScore(sensitivityScore),
+    confidence: Math.min(1, movements / 50), // More samples = higher confidence
+    evidence: buildEvidence(
+      countSamples(summary, { scrolls: 'scroll', swipes: 'swipe', cursors: 'cursor', clicks: 'click', taps: 'tap' }),
+      factors,
+      sensitivityScore,
+      thresholds
+    ),
+  };
+}
+
+export const motionSensitivityTrait: TraitDefinition<MotionSensitivity> = {
+  key: 'motionSensitivity',
+  label: 'Motion Preference',
+  domain: ['low', 'medium', 'high'],
+  defaultValue: 'medium',
+  scale: MOTION_SCALE,
+  builtin: true,
+  describe: (value) => ({
+    low: 'Comfortable with motion',
+    medium: 'Moderate motion preference',
+    high: 'Prefers minimal motion',
+  })[value],
+  infer: (signals) => inferMotionSensitivity(summarizeSignals(signals)),
+  inferFromSummary: inferMotionSensitivity,
+};
+
+/**
+ * Interaction Speed: Based on click latency, cursor velocity, hover dwell time
+ */
+function inferInteractionSpeed(summary: SignalSummary): TraitInferenceResult<InteractionSpeed> | null {
+  if (summary.count('click') < MIN_SAMPLES) return null;
+
+  // Fast clickers have low time-to-click
+  const avgTimeToClick = summary.metric('click.timeToClick').mean;
+
+  // Fast movers have high cursor velocity
+  const avgCursorVelocity = summary.count('cursor') > 0 ? summary.metric('cursor.velocity').mean : 0.5;
+
+  // Fast users have short hover dwell
+  const avgHoverDwell = summary.count('hover') > 0 ? summary.metric('hover.dwellTime').mean : 300;
+
+  // Normalize and combine
+  const factors = [
+    { key: 'avgTimeToClick', label: 'Average time to click', input: avgTimeToClick, unit: 'ms' as const, subScore: avgTimeToClick < 200 ? 1 : avgTimeToClick < 400 ? 0.5 : 0, weight: 0.4 },
+    { key: 'avgCursorVelocity', label: 'Average cursor speed', input: avgCursorVelocity, unit: 'px/ms' as const, subScore: avgCursorVelocity > 1 ? 1 : avgCursorVelocity > 0.5 ? 0.5 : 0, weight: 0.3 },
+    { key: 'avgHoverDwell', label: 'Average hover time', input: avgHoverDwell, unit: 'ms' as const, subScore: avgHoverDwell < 200 ? 1 : avgHoverDwell < 400 ? 0.5 : 0, weight: 0.3 },
+  ];
+  const speedScore = scoreFactors(factors);
+  const { value, thresholds } = classify(speedScore, SPEED_SCALE.thresholds, SPEED_SCALE.fallback);
+
+  return {
+    value,
+    score: toScore(speedScore),
+    confidence: Math.min(1, summary.count('click') / 30),
+    evidence: buildEvidence(
+      countSamples(summary, { clicks: 'click', cursors: 'cursor', hovers: 'hover' }),
+      factors,
+      speedScore,
+      thresholds
+    ),
+  };
+}
+
+export const interactionSpeedTrait: TraitDefinition<InteractionSpeed> = {
+  key: 'preferredInteractionSpeed',
+  label: 'Interaction Pace',
+  domain: ['fast', 'balanced', 'slow'],
+  defaultValue: 'balanced',
+  scale: SPEED_SCALE,
+  builtin: true,
+  describe: (value) => ({
+    fast: 'Fast-paced interactions',
+    balanced: 'Balanced pace',
+    slow: 'Deliberate interactions',
+  })[value],
+  infer: (signals) => inferInteractionSpeed(summarizeSignals(signals)),
+  inferFromSummary: inferInteractionSpeed,
+};
+
+/**
+ * Layout Density Tolerance: Based on click precision, target size preferences
+ */
+function inferDensityTolerance(summary: SignalSummary): TraitInferenceResult<LayoutDensity> | null {
+  const hits = summary.metric('hit.targetSize').count;
+  if (hits < MIN_SAMPLES) return null;
+
+  // Users who miss small targets prefer spacious layouts
+  const missRate = summary.metric('hit.farMiss').mean;
+
+  // Users who click large targets comfortably prefer compact
+  const avgTargetSize = summary.metric('hit.targetSize').mean;
+
+  // High precision = comfortable with compact
+  const precision = calculateClickPrecision(summary);
+
+  // Zooming in and rage-tapping mean targets are too small to hit comfortably
+  const strainEvents = summary.metric('pinch.zoomIn').sum + summary.count('ragetap');
+
+  const factors = [
+    { key: 'missRate', label: 'Missed clicks and taps', input: missRate, unit: 'ratio' as const, subScore: missRate > 0.3 ? 0 : missRate > 0.15 ? 0.5 : 1, weight: 0.4 },
+    { key: 'avgTargetSize', label: 'Average target size', input: avgTargetSize, unit: 'px' as const, subScore: avgTargetSize < 500 ? 0 : avgTargetSize < 1000 ? 0.5 : 1, weight: 0.3 },
+    { key: 'precision', label: 'Click precision', input: precision, unit: 'ratio' as const, subScore: precision > 0.8 ? 1 : precision > 0.6 ? 0.5 : 0, weight: 0.3 },
+    { key: 'strain', label: 'Pinch-zooms and rage taps', input: strainEvents, unit: 'count' as const, subScore: Math.min(1, strainEvents / 3), weight: -0.3 },
+  ];
+  const densityScore = scoreFactors(factors);
+  const { value, thresholds } = classify(densityScore, DENSITY_SCALE.thresholds, DENSITY_SCALE.fallback);
+
+  return {
+    value,
+    score: toScore(densityScore),
+    confidence: Math.min(1, hits / 40),
+    evidence: buildEvidence(
+      countSamples(summary, { clicks: 'click', taps: 'tap', pinches: 'pinch', rageTaps: 'ragetap' }),
+      factors,
+      densityScore,
+      thresholds
+    ),
+  };
+}
+
+export const densityToleranceTrait: TraitDefinition<LayoutDensity> = {
+  key: 'layoutDensityTolerance',
+  label: 'Layout Spacing',
+  domain: ['compact', 'standard', 'spacious'],
+  defaultValue: 'standard',
+  scale: DENSITY_SCALE,
+  builtin: true,
+  describe: (value) => ({
+    compact: 'Comfortable with compact layouts',
+    standard: 'Standard spacing preference',
+    spacious: 'Prefers spacious layouts',
+  })[value],
+  infer: (signals) => inferDensityTolerance(summarizeSignals(signals)),
+  inferFromSummary: inferDensityTolerance,
+};
+
+/**
+ * Guidance Need: Based on tooltip engagement, hesitation before acting and corrections
+ */
+function inferGuidanceNeed(summary: SignalSummary): TraitInferenceResult<GuidanceNeed> | null {
+  const hovers = summary.count('hover');
+  const tooltips = summary.count('tooltipdismissed');
+  if (hovers < MIN_SAMPLES && tooltips < MIN_TOOLTIPS) return null;
+
+  // Lingering over an element before clicking it suggests uncertainty; without
+  // hovers that led anywhere, all dwell is the best proxy
+  const acted = summary.metric('hover.actedDwell');
+  const avgDwell = acted.count > 0 ? acted.mean : summary.metric('hover.dwellTime').mean;
+
+  // High correction rate suggests need for clearer guidance
+  const correctionRate = summary.metric('click.correctionCount').mean;
+
+  // Tooltips kept open long enough to read are guidance being used; quick dismissals are guidance in the way
+  const readRate = summary.metric('tooltip.read').mean;
+  const engaged = tooltips >= MIN_TOOLTIPS;
+
+  const factors = [
+    ...(engaged
+      ? [{ key: 'tooltipReadRate', label: 'Tooltips read rather than dismissed', input: readRate, unit: 'ratio' as const, subScore: readRate, weight: 0.4 }]
+      : []),
+    {
+      key: 'avgDwell',
+      label: acted.count > 0 ? 'Average hover before acting' : 'Average hover time',
+      input: avgDwell,
+      unit: 'ms' as const,
+      subScore: avgDwell > 500 ? 1 : avgDwell > 300 ? 0.5 : 0,
+      weight: engaged ? 0.3 : 0.6,
+    },
+    { key: 'correctionRate', label: 'Corrections per click', input: correctionRate, unit: 'score' as const, subScore: correctionRate > 1 ? 1 : correctionRate > 0.5 ? 0.5 : 0, weight: engaged ? 0.3 : 0.4 },
+  ];
+  const guidanceScore = scoreFactors(factors);
+  const { value, thresholds } = classify(guidanceScore, GUIDANCE_SCALE.thresholds, GUIDANCE_SCALE.fallback);
+
+  return {
+    value,
+    score: toScore(guidanceScore),
+    confidence: Math.min(1, (hovers + tooltips) / 30),
+    evidence: buildEvidence(
+      countSamples(summary, { hovers: 'hover', clicks: 'click', tooltips: 'tooltipdismissed' }),
+      factors,
+      guidanceScore,
+      thresholds
+    ),
+  };
+}
+
+export const guidanceNeedTrait: TraitDefinition<GuidanceNeed> = {
+  key: 'guidanceNeed',
+  label: 'Guidance Preference',
+  domain: ['minimal', 'contextual', 'strong'],
+  defaultValue: 'contextual',
+  scale: GUIDANCE_SCALE,
+  builtin: true,
+  pooled: true,
+  describe: (value) => ({
+    minimal: 'Prefers minimal guidance',
+    contextual: 'Contextual help preferred',
+    strong: 'Prefers detailed guidance',
+  })[value],
+  infer: (signals) => inferGuidanceNeed(summarizeSignals(signals)),
+  inferFromSummary: inferGuidanceNeed,
+};
+
+/**
+ * Cognitive Load: Detects overload from rapid switching, jitter, abandonment
+ */
+function inferCognitiveLoad(summary: SignalSummary): TraitInferenceResult<number> | null {
+  if (summary.total < MIN_SAMPLES) return null;
+
+  // Rapid tab switching (focus changes)
+  const rapidFocusRate = summary.metric('focus.rapid').mean;
+
+  // High jitter (stress indicator)
+  const avgJitter = summary.metric('cursor.jitter').mean;
+
+  // Scroll oscillation (indecision)
+  const oscillationRate = summary.metric('scroll.oscillating').mean;
+
+  // Combine into load score (0-1)
+  const factors = [
+    { key: 'rapidFocusRate', label: 'Rapid focus changes', input: rapidFocusRate, unit: 'ratio' as const, subScore: rapidFocusRate, weight: 0.4 },
+    { key: 'avgJitter', label: 'Average cursor jitter', input: avgJitter, unit: 'px' as const, subScore: Math.min(1, avgJitter / 20), weight: 0.3 },
+    { key: 'oscillationRate', label: 'Scroll back-and-forth', input: oscillationRate, unit: 'ratio' as const, subScore: oscillationRate, weight: 0.3 },
+  ];
+  const loadScore = Math.min(1, scoreFactors(factors));
+
+  return {
+    value: loadScore,
+    score: loadScore,
+    confidence: Math.min(1, summary.total / 100),
+    evidence: buildEvidence(
+      { signals: Math.round(summary.total), ...countSamples(summary, { focus: 'focus', cursors: 'cursor', scrolls: 'scroll' }) },
+      factors,
+      loadScore
+    ),
+  };
+}
+
+export const cognitiveLoadTrait: TraitDefinition<number> = {
+  key: 'cognitiveLoadThreshold',
+  label: 'Cognitive Load',
+  domain: { min: 0, max: 1 },
+  defaultValue: 0.5,
+  builtin: true,
+  display: false,
+  isStable: (next, previous) => Math.abs(next - previous) < 0.2,
+  infer: (signals) => inferCognitiveLoad(summarizeSignals(signals)),
+  inferFromSummary: inferCognitiveLoad,
+};
+
+/**
+ * Input Modality: Based on keyboard vs. pointer actions, Tab traversal, keyboard focus and shortcuts
+ */
+function inferInputModality(summary: SignalSummary): TraitInferenceResult<InputModality> | null {
+  // Navigation keys and shortcuts are actions; typing text is not
+  const keyboardActions = summary.metric('keyboard.action').sum;
+  const pointerActions = summary.count('click') + summary.count('tap');
+  const actions = keyboardActions + pointerActions;
+  if (actions < MIN_SAMPLES) return null;
+
+  const keyboardShare = keyboardActions / actions;
+
+  // Moving through the page with Tab, with the focus ring showing
+  const tabRate = summary.metric('focus.viaTab').mean;
+  const focusVisibleRate = summary.metric('focus.visible').mean;
+
+  // Shortcuts per action
+  const shortcutRate = summary.metric('keyboard.shortcut').sum / actions;
+
+  const factors = [
+    { key: 'keyboardShare', label: 'Keyboard share of actions', input: keyboardShare, unit: 'ratio' as const, subScore: keyboardShare, weight: 0.4 },
+    { key: 'tabRate', label: 'Focus moved with Tab', input: tabRate, unit: 'ratio' as const, subScore: tabRate, weight: 0.2 },
+    { key: 'focusVisibleRate', label: 'Keyboard focus', input: focusVisibleRate, unit: 'ratio' as const, subScore: focusVisibleRate, weight: 0.2 },
+    { key: 'shortcutRate', label: 'Shortcuts per action', input: shortcutRate, unit: 'ratio' as const, subScore: shortcutRate > 0.1 ? 1 : shortcutRate > 0.02 ? 0.5 : 0, weight: 0.2 },
+  ];
+  const modalityScore = scoreFactors(factors);
+  const { value, thresholds } = classify(modalityScore, MODALITY_SCALE.thresholds, MODALITY_SCALE.fallback);
+
+  return {
+    value,
+    score: toScore(modalityScore),
+    confidence: Math.min(1, actions / 40),
+    evidence: buildEvidence(
+      countSamples(summary, { keys: 'keyboard', focus: 'focus', clicks: 'click', taps: 'tap' }),
+      factors,
+      modalityScore,
+      thresholds
+    ),
+  };
+}
+
+export const inputModalityTrait: TraitDefinition<InputModality> = {
+  key: 'inputModality',
+  label: 'Input Style',
+  domain: ['keyboard', 'mixed', 'pointer'],
+  defaultValue: 'pointer',
+  scale: MODALITY_SCALE,
+  builtin: true,
+  describe: (value) => ({
+    keyboard: 'Navigates mainly by keyboard',
+    mixed: 'Uses keyboard and pointer',
+    pointer: 'Navigates mainly by pointer',
+  })[value],
+  infer: (signals) => inferInputModality(summarizeSignals(signals)),
+  inferFromSummary: inferInputModality,
+};
+
+export const BUILTIN_TRAITS: TraitDefinition<any>[] = [
+  motionSensitivityTrait,
+  interactionSpeedTrait,
+  densityToleranceTrait,
+  guidanceNeedTrait,
+  cognitiveLoadTrait,
+  inputModalityTrait,
+];
+
+export function registerBuiltinTraits(registry: TraitRegistry) {
+  BUILTIN_TRAITS.forEach(definition => registry.register(definition));
+}
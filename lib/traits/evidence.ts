@@ -0,0 +1,44 @@
+/**
+ * Evidence Helpers
+ *
+ * Trait definitions describe their scoring as weighted factors and
+ * thresholds so every inference pass can explain itself.
+ */
+
+import { EvidenceFactor, EvidenceThreshold, TraitEvidence } from '@/types/genome';
+
+/**
+ * Weighted sum of the factors' sub-scores
+ */
+export function scoreFactors(factors: EvidenceFactor[]): number {
+  return factors.reduce((score, factor) => score + factor.subScore * factor.weight, 0);
+}
+
+/**
+ * Pick the first threshold the score exceeds (thresholds in descending order)
+ */
+export function classify<V extends string>(
+  score: number,
+  thresholds: [number, V][],
+  fallback: V
+): { value: V; thresholds: EvidenceThreshold[] } {
+  const match = thresholds.find(([threshold]) => score > threshold);
+
+  return {
+    value: match ? match[1] : fallback,
+    thresholds: thresholds.map(([threshold, label]) => ({
+      value: threshold,
+      label,
+      crossed: score > threshold,
+    })),
+  };
+}
+
+export function buildEvidence(
+  samples: Record<string, number>,
+  factors: EvidenceFactor[],
+  score: number,
+  thresholds: EvidenceThreshold[] = []
+): TraitEvidence {
+  return { samples, factors, score, thresholds };
+}
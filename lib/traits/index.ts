@@ -0,0 +1,18 @@
+/**
+ * Trait Registry (default instance)
+ *
+ * Pre-populated with the built-in traits. Apps register custom traits here
+ * before GenomeProvider mounts.
+ */
+
+import { TraitRegistry } from './registry';
+import { registerBuiltinTraits } from './builtin';
+
+export * from './registry';
+export * from './builtin';
+export * from './evidence';
+export * from './scale';
+export * from './posterior';
+
+export const traitRegistry = new TraitRegistry();
+registerBuiltinTraits(traitRegistry);
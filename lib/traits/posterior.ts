@@ -0,0 +1,233 @@
+/**
+ * Trait Posteriors
+ *
+ * Each trait's belief is a probability distribution updated from every
+ * window of evidence: a Gaussian over the 0-1 score for traits with a
+ * scale or a numeric range, a Dirichlet over the values of other
+ * categorical traits. Without new evidence the belief relaxes back toward
+ * the prior. Confidence, credible intervals and the learning state are all
+ * read off the posterior.
+ */
+
+import { UXGenome, TraitPosterior, LearningState } from '@/types/genome';
+import { TraitDefinition, TraitState, TraitValue, readTrait } from './registry';
+import { scoreBand, scoreForValue, valueForScore, DEFAULT_HYSTERESIS } from './scale';
+
+export const PRIOR_VARIANCE = 1 / 12; // variance of a score known only to lie in 0-1
+export const OBSERVATION_VARIANCE = 0.08; // noise of one full-confidence window's score (windows overlap, so each is weak evidence)
+export const POSTERIOR_HALF_LIFE = 7 * 24 * 60 * 60 * 1000; // evidence loses half its weight per week
+export const DIRICHLET_PRIOR = 1; // pseudo-count of every categorical value before evidence
+
+const MIN_EVIDENCE_WEIGHT = 0.05;
+const ESTIMATE_STRENGTH = 10; // pseudo-counts behind a fully confident value without a posterior
+const MAX_ESTIMATE_CERTAINTY = 0.99;
+
+// Posterior probability of the current value needed for each learning state
+const CONFIDENT_PROBABILITY = 0.9;
+const TENTATIVE_PROBABILITY = 0.6;
+const MIN_SAMPLES = 10; // passes before an uncertain trait stops counting as observing
+
+/**
+ * Posterior matching a value held with some confidence, for traits that
+ * have none yet (defaults, priors, imported profiles, migrated genomes)
+ */
+export function posteriorFromEstimate(
+  definition: TraitDefinition<any>,
+  value: TraitValue,
+  confidence: number,
+  now: number
+): TraitPosterior {
+  const certainty = Math.min(MAX_ESTIMATE_CERTAINTY, Math.max(0, confidence));
+  const score = scoreForValue(definition, value);
+  if (score !== undefined) {
+    return { kind: 'gaussian', mean: score, variance: PRIOR_VARIANCE * (1 - certainty), updatedAt: now };
+  }
+
+  const counts: Record<string, number> = {};
+  (definition.domain as readonly TraitValue[]).forEach((option) => {
+    counts[String(option)] = DIRICHLET_PRIOR;
+  });
+  counts[String(value)] = DIRICHLET_PRIOR + ESTIMATE_STRENGTH * certainty;
+  return { kind: 'dirichlet', counts, updatedAt: now };
+}
+
+/**
+ * A trait's posterior as of `now`, decayed for the time since its last update
+ */
+export function readPosterior(definition: TraitDefinition<any>, state: TraitState<any>, now: number): TraitPosterior {
+  const posterior = state.meta.posterior
+    ?? posteriorFromEstimate(definition, state.value, state.meta.confidence, state.meta.lastUpdated);
+  return decayPosterior(posterior, now);
+}
+
+/**
+ * Relax a posterior toward the prior for the time elapsed since it was updated
+ */
+export function decayPosterior(
+  posterior: TraitPosterior,
+  now: number,
+  halfLife: number = POSTERIOR_HALF_LIFE
+): TraitPosterior {
+  const elapsed = Math.max(0, now - posterior.updatedAt);
+  const keep = Math.pow(0.5, elapsed / halfLife);
+
+  if (posterior.kind === 'gaussian') {
+    return { ...posterior, variance: PRIOR_VARIANCE - (PRIOR_VARIANCE - posterior.variance) * keep, updatedAt: now };
+  }
+
+  const counts: Record<string, number> = {};
+  Object.entries(posterior.counts).forEach(([value, count]) => {
+    counts[value] = DIRICHLET_PRIOR + (count - DIRICHLET_PRIOR) * keep;
+  });
+  return { ...posterior, counts, updatedAt: now };
+}
+
+/**
+ * Bayesian update with one window of evidence. `weight` (0-1, the pass
+ * confidence) scales how much evidence the window carries.
+ */
+export function updatePosterior(
+  definition: TraitDefinition<any>,
+  posterior: TraitPosterior,
+  observation: { value: TraitValue; score?: number },
+  weight: number,
+  now: number
+): TraitPosterior {
+  const prior = decayPosterior(posterior, now);
+
+  if (prior.kind === 'gaussian') {
+    const score = observation.score ?? scoreForValue(definition, observation.value);
+    if (score === undefined) return prior;
+
+    // Conjugate normal update; less confident windows are noisier observations
+    const noise = OBSERVATION_VARIANCE / Math.max(weight, MIN_EVIDENCE_WEIGHT);
+    const gain = prior.variance / (prior.variance + noise);
+    return {
+      kind: 'gaussian',
+      mean: prior.mean + gain * (score - prior.mean),
+      variance: (1 - gain) * prior.variance,
+      updatedAt: now,
+    };
+  }
+
+  const key = String(observation.value);
+  return {
+    ...prior,
+    counts: { ...prior.counts, [key]: (prior.counts[key] ?? DIRICHLET_PRIOR) + weight },
+  };
+}
+
+/**
+ * Most likely value under a posterior. The current value is kept unless
+ * another one is clearly more likely (hysteresis).
+ */
+export function posteriorValue<V extends TraitValue>(definition: TraitDefinition<V>, posterior: TraitPosterior, current: V): V {
+  if (posterior.kind === 'gaussian') {
+    return valueForScore(definition, posterior.mean, current) ?? current;
+  }
+
+  const domain = definition.domain as readonly V[];
+  const total = Object.values(posterior.counts).reduce((sum, count) => sum + count, 0);
+  const probability = (value: V) => (posterior.counts[String(value)] ?? 0) / total;
+  const best = domain.reduce((a, b) => (probability(b) > probability(a) ? b : a));
+  return probability(best) - probability(current) > DEFAULT_HYSTERESIS ? best : current;
+}
+
+/**
+ * Posterior probability that a value is right: the mass inside the value's
+ * score band, or for numeric traits how narrow the 90% interval is
+ */
+export function posteriorConfidence(definition: TraitDefinition<any>, posterior: TraitPosterior, value: TraitValue): number {
+  if (posterior.kind === 'dirichlet') {
+    const total = Object.values(posterior.counts).reduce((sum, count) => sum + count, 0);
+    return total > 0 ? (posterior.counts[String(value)] ?? 0) / total : 0;
+  }
+
+  const sd = Math.sqrt(posterior.variance);
+  if (definition.scale && typeof value === 'string') {
+    // Scores can land outside 0-1, so the outermost bands are open-ended
+    const band = scoreBand(definition.scale, value);
+    const upper = band.upper >= 1 ? Infinity : band.upper;
+    const lower = band.lower <= 0 ? -Infinity : band.lower;
+    return normalCdf((upper - posterior.mean) / sd) - normalCdf((lower - posterior.mean) / sd);
+  }
+
+  const [low, high] = credibleInterval(posterior, 0.9);
+  return Math.max(0, 1 - (high - low));
+}
+
+/**
+ * Interval holding the score with the given probability (clipped to 0-1).
+ * For a Dirichlet it bounds the probability of `value` (default: the most
+ * likely value).
+ */
+export function credibleInterval(posterior: TraitPosterior, level = 0.9, value?: TraitValue): [number, number] {
+  const z = normalQuantile((1 + level) / 2);
+  const clip = (x: number) => Math.min(1, Math.max(0, x));
+
+  if (posterior.kind === 'gaussian') {
+    const sd = Math.sqrt(posterior.variance);
+    return [clip(posterior.mean - z * sd), clip(posterior.mean + z * sd)];
+  }
+
+  // Normal approximation of the Beta marginal
+  const counts = Object.entries(posterior.counts);
+  const total = counts.reduce((sum, [, count]) => sum + count, 0);
+  const count = value !== undefined
+    ? posterior.counts[String(value)] ?? 0
+    : Math.max(...counts.map(([, c]) => c));
+  const p = total > 0 ? count / total : 0;
+  const sd = Math.sqrt((p * (1 - p)) / (total + 1));
+  return [clip(p - z * sd), clip(p + z * sd)];
+}
+
+/**
+ * Confidence in a trait's value as of `now`, allowing for the time since it
+ * was last learned. Traits without a posterior report their stored confidence.
+ */
+export function currentConfidence(definition: TraitDefinition<any>, state: TraitState<any>, now: number): number {
+  if (!state.meta.posterior || state.meta.state === 'locked') return state.meta.confidence;
+  return posteriorConfidence(definition, readPosterior(definition, state, now), state.value);
+}
+
+/**
+ * Learning state implied by the posterior probability of the current value
+ */
+export function learningStateFor(confidence: number, sampleCount: number): LearningState {
+  if (confidence >= CONFIDENT_PROBABILITY) return 'confident';
+  if (confidence >= TENTATIVE_PROBABILITY) return 'tentative';
+  return sampleCount < MIN_SAMPLES ? 'observing' : 'tentative';
+}
+
+/**
+ * Learned score of a trait (the posterior mean), falling back to the score
+ * its value stands for
+ */
+export function readTraitScore(genome: UXGenome, definition: TraitDefinition<any>): number | undefined {
+  const { value, meta } = readTrait(genome, definition);
+  return meta.posterior?.kind === 'gaussian' ? meta.posterior.mean : scoreForValue(definition, value);
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, accurate to ~1e-7)
+ */
+export function normalCdf(z: number): number {
+  if (z === Infinity) return 1;
+  if (z === -Infinity) return 0;
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function normalQuantile(p: number): number {
+  // Bisection is plenty for the few levels we ask for
+  let low = -10;
+  let high = 10;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
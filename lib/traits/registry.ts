@@ -0,0 +1,186 @@
+/**
+ * Trait Registry
+ *
+ * Single source of truth for which traits the genome learns. The inference
+ * engine, store locking, visualization and export all iterate the registry,
+ * so apps can add their own traits without forking those modules.
+ */
+
+import { UXGenome, SignalCollection, TraitMetadata, StoredTraitState, TraitEvidence } from '@/types/genome';
+import { SignalSummary } from '@/lib/stats/summary';
+
+export type TraitValue = string | number;
+
+export type TraitDomain<V extends TraitValue> =
+  | readonly V[] // categorical values
+  | { min: number; max: number }; // continuous range
+
+/**
+ * Bands of the continuous score a categorical trait is learned as, highest
+ * first like `classify`: [[0.6, 'high'], [0.3, 'medium']] with fallback 'low'
+ */
+export interface TraitScale<V extends string = string> {
+  thresholds: [number, V][];
+  fallback: V;
+  hysteresis?: number; // how far past a boundary the score must go before the label changes (default 0.05)
+}
+
+export interface TraitInferenceResult<V extends TraitValue = TraitValue> {
+  value: V;
+  score?: number; // 0-1, continuous score the value was classified from
+  confidence: number; // 0-1, confidence of this single inference pass
+  evidence?: TraitEvidence; // what the value was derived from
+}
+
+export interface TraitDefinition<V extends TraitValue = TraitValue> {
+  key: string;
+  label: string; // shown in the visualization panel
+  domain: TraitDomain<V>;
+  defaultValue: V;
+  scale?: TraitScale<Extract<V, string>>; // score bands, for traits whose inference returns a score
+
+  // Infer a value from the recent signal window, or null if there is not enough data
+  infer: (signals: SignalCollection[], genome: UXGenome) => TraitInferenceResult<V> | null;
+
+  // Infer from streaming aggregates in O(1). Traits without it get the raw signal window via `infer`.
+  inferFromSummary?: (summary: SignalSummary, genome: UXGenome) => TraitInferenceResult<V> | null;
+
+  // Whether a new inference agrees with the current value (defaults to strict equality)
+  isStable?: (next: V, previous: V) => boolean;
+
+  // Plain-language description of a value
+  describe?: (value: V) => string;
+
+  // CSS custom properties to apply for a value
+  adapt?: (value: V, genome: UXGenome) => Record<string, string>;
+
+  display?: boolean; // show in the visualization panel (default true)
+  pooled?: boolean; // shared across device partitions instead of learned per device
+  builtin?: boolean; // stored as top-level UXGenome fields instead of customTraits
+}
+
+export interface TraitState<V extends TraitValue = TraitValue> {
+  value: V;
+  meta: TraitMetadata;
+}
+
+export function createDefaultMeta(): TraitMetadata {
+  return {
+    confidence: 0,
+    lastUpdated: Date.now(),
+    sampleCount: 0,
+    state: 'observing',
+  };
+}
+
+export class TraitRegistry {
+  private definitions = new Map<string, TraitDefinition<any>>();
+
+  register<V extends TraitValue>(definition: TraitDefinition<V>) {
+    if (this.definitions.has(definition.key)) {
+      throw new Error(`Trait "${definition.key}" is already registered`);
+    }
+    if (!isValidTraitValue(definition, definition.defaultValue)) {
+      throw new Error(`Trait "${definition.key}" has a default value outside its domain`);
+    }
+
+    this.definitions.set(definition.key, definition);
+    return () => this.unregister(definition.key);
+  }
+
+  unregister(key: string) {
+    const definition = this.definitions.get(key);
+    if (definition?.builtin) {
+      throw new Error(`Built-in trait "${key}" cannot be unregistered`);
+    }
+    this.definitions.delete(key);
+  }
+
+  get(key: string): TraitDefinition | undefined {
+    return this.definitions.get(key);
+  }
+
+  has(key: string): boolean {
+    return this.definitions.has(key);
+  }
+
+  list(): TraitDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+}
+
+/**
+ * Check a value against a trait's domain
+ */
+export function isValidTraitValue(definition: TraitDefinition<any>, value: unknown): boolean {
+  const { domain } = definition;
+  if (Array.isArray(domain)) {
+    return domain.includes(value);
+  }
+  const range = domain as { min: number; max: number };
+  return typeof value === 'number' && value >= range.min && value <= range.max;
+}
+
+// Top-level genome fields holding a built-in trait's value, each next to its `${key}Meta`
+type BuiltinTraitKey = {
+  [K in keyof UXGenome]-?: K extends string ? (`${K}Meta` extends keyof UXGenome ? K : never) : never;
+}[keyof UXGenome];
+type BuiltinMetaKey = `${BuiltinTraitKey}Meta`;
+
+function setField<K extends keyof UXGenome>(updates: Partial<UXGenome>, key: K, value: UXGenome[K]) {
+  updates[key] = value;
+}
+
+/**
+ * Read a trait's current value and metadata from a genome
+ */
+export function readTrait<V extends TraitValue>(genome: UXGenome, definition: TraitDefinition<V>): TraitState<V> {
+  if (definition.builtin) {
+    const key = definition.key as BuiltinTraitKey;
+    return {
+      value: genome[key] as V,
+      meta: genome[`${key}Meta` as BuiltinMetaKey],
+    };
+  }
+
+  const stored = genome.customTraits?.[definition.key];
+  if (stored && isValidTraitValue(definition, stored.value)) {
+    return stored as TraitState<V>;
+  }
+  return { value: definition.defaultValue, meta: stored?.meta ?? createDefaultMeta() };
+}
+
+/**
+ * Write a trait's value and metadata into a set of genome updates
+ */
+export function writeTrait<V extends TraitValue>(
+  updates: Partial<UXGenome>,
+  genome: UXGenome,
+  definition: TraitDefinition<V>,
+  state: TraitState<V>
+): Partial<UXGenome> {
+  if (definition.builtin) {
+    const key = definition.key as BuiltinTraitKey;
+    setField(updates, key, state.value as UXGenome[BuiltinTraitKey]);
+    setField(updates, `${key}Meta` as BuiltinMetaKey, state.meta);
+    return updates;
+  }
+
+  const customTraits: Record<string, StoredTraitState> = {
+    ...genome.customTraits,
+    ...updates.customTraits,
+  };
+  customTraits[definition.key] = state;
+  updates.customTraits = customTraits;
+  return updates;
+}
+
+/**
+ * Whether a set of updates wrote a new state for a trait
+ */
+export function wasTraitWritten(genome: UXGenome, updates: Partial<UXGenome>, definition: TraitDefinition<any>): boolean {
+  if (definition.builtin) {
+    return definition.key in updates;
+  }
+  return !!updates.customTraits && updates.customTraits[definition.key] !== genome.customTraits?.[definition.key];
+}
@@ -0,0 +1,132 @@
+/**
+ * Trait Scales
+ *
+ * Traits with a scale are learned as a continuous score from 0 to 1 (see
+ * ./posterior). Categorical labels are bands of that score: adaptation
+ * interpolates between the bands' anchors, and a label only changes once
+ * the score is clearly past the band boundary, so a score sitting on a
+ * threshold doesn't flip the label back and forth.
+ */
+
+import { TraitDefinition, TraitScale, TraitValue } from './registry';
+import { classify } from './evidence';
+
+export const DEFAULT_HYSTERESIS = 0.05;
+
+export interface ScoreBand {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Range of scores a label covers
+ */
+export function scoreBand<V extends string>(scale: TraitScale<V>, label: V): ScoreBand {
+  const index = scale.thresholds.findIndex(([, value]) => value === label);
+  if (index === -1) {
+    // The fallback sits below the lowest threshold
+    const lowest = scale.thresholds[scale.thresholds.length - 1];
+    return { lower: 0, upper: lowest ? lowest[0] : 1 };
+  }
+  return {
+    lower: scale.thresholds[index][0],
+    upper: index === 0 ? 1 : scale.thresholds[index - 1][0],
+  };
+}
+
+/**
+ * Score a label stands for: the middle of its band
+ */
+export function scoreAnchor<V extends string>(scale: TraitScale<V>, label: V): number {
+  const { lower, upper } = scoreBand(scale, label);
+  return (lower + upper) / 2;
+}
+
+/**
+ * Label for a score. With the current label given, it is kept until the
+ * score leaves its band by more than the scale's hysteresis.
+ */
+export function labelForScore<V extends string>(scale: TraitScale<V>, score: number, current?: V): V {
+  const next = classify(score, scale.thresholds, scale.fallback).value;
+  if (current === undefined || next === current) return next;
+  if (current !== scale.fallback && !scale.thresholds.some(([, value]) => value === current)) return next;
+
+  const margin = scale.hysteresis ?? DEFAULT_HYSTERESIS;
+  const band = scoreBand(scale, current);
+  return score >= band.lower - margin && score <= band.upper + margin ? current : next;
+}
+
+/**
+ * Score matching a value: the label's anchor, or a number's position in its range
+ */
+export function scoreForValue(definition: TraitDefinition<any>, value: TraitValue): number | undefined {
+  if (definition.scale && typeof value === 'string') {
+    return scoreAnchor(definition.scale, value);
+  }
+  if (!Array.isArray(definition.domain) && typeof value === 'number') {
+    const { min, max } = definition.domain as { min: number; max: number };
+    return max > min ? (value - min) / (max - min) : 0;
+  }
+  return undefined;
+}
+
+/**
+ * Value for a score: the label with hysteresis for scaled traits, a
+ * position in the range for numeric ones
+ */
+export function valueForScore<V extends TraitValue>(definition: TraitDefinition<V>, score: number, current?: V): V | undefined {
+  if (definition.scale) {
+    return labelForScore(definition.scale, score, current as Extract<V, string> | undefined) as V;
+  }
+  if (!Array.isArray(definition.domain)) {
+    const { min, max } = definition.domain as { min: number; max: number };
+    return (min + Math.min(1, Math.max(0, score)) * (max - min)) as V;
+  }
+  return undefined;
+}
+
+/**
+ * Interpolate a per-label table at a score, linearly between the labels'
+ * anchors and flat beyond the outermost ones
+ */
+export function interpolateByScore<V extends string>(scale: TraitScale<V>, score: number, table: Record<V, number>): number {
+  const points = [...scale.thresholds.map(([, label]) => label), scale.fallback]
+    .map(label => ({ at: scoreAnchor(scale, label), value: table[label] }))
+    .sort((a, b) => a.at - b.at);
+
+  if (score <= points[0].at) return points[0].value;
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const next = points[i];
+    if (score === next.at) return next.value;
+    if (score < next.at) {
+      const t = (score - previous.at) / (next.at - previous.at);
+      return previous.value + t * (next.value - previous.value);
+    }
+  }
+  return points[points.length - 1].value;
+}
+
+/**
+ * Keep a score from interpolating past a floor or ceiling (in domain
+ * order): it stops at the score the bound stands for
+ */
+export function clampTraitScore(
+  definition: TraitDefinition<any>,
+  score: number,
+  bounds: { floor?: TraitValue; ceiling?: TraitValue }
+): number {
+  const { domain } = definition;
+  const floor = bounds.floor !== undefined ? scoreForValue(definition, bounds.floor) : undefined;
+  const ceiling = bounds.ceiling !== undefined ? scoreForValue(definition, bounds.ceiling) : undefined;
+
+  // Scores of categorical traits may run opposite to domain order
+  const ascending = Array.isArray(domain)
+    ? (scoreForValue(definition, domain[domain.length - 1]) ?? 1) > (scoreForValue(definition, domain[0]) ?? 0)
+    : true;
+
+  let clamped = score;
+  if (floor !== undefined) clamped = ascending ? Math.max(clamped, floor) : Math.min(clamped, floor);
+  if (ceiling !== undefined) clamped = ascending ? Math.min(clamped, ceiling) : Math.max(clamped, ceiling);
+  return clamped;
+}
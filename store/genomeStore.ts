@@ -6,10 +6,23 @@
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { UXGenome, TraitMetadata, LearningState } from '@/types/genome';
+import { UXGenome, TraitMetadata, StoredTraitState, TraitInference, OSPreferences } from '@/types/genome';
+import { traitRegistry, createDefaultMeta, isValidTraitValue, readTrait, writeTrait } from '@/lib/traits';
+import { DriftEvent } from '@/lib/inference/drift';
+import { AdaptationOutcome, Rollback } from '@/lib/adaptation/outcomes';
+import { ElementStats } from '@/lib/stats/elements';
+import { GENOME_VERSION, validateGenome, formatSchemaIssue } from '@/lib/schema/genome';
+import { migrateGenome } from '@/lib/schema/migrations';
+import { createProfile, validateProfile, applyProfile, isProfileDocument, UXGenomeProfile } from '@/lib/schema/profile';
+import { NO_OS_PREFERENCES, seedOSPriors } from '@/lib/context/accessibility';
 
-const DEFAULT_GENOME: UXGenome = {
-  version: '1.0.0',
+export const GENOME_STORAGE_KEY = 'ux-genome-storage';
+
+const INFERENCE_HISTORY_SIZE = 20; // explained inferences kept per trait
+const OUTCOME_HISTORY_SIZE = 100; // judged adaptation changes kept
+
+export const DEFAULT_GENOME: UXGenome = {
+  version: GENOME_VERSION,
   createdAt: Date.now(),
   lastUpdated: Date.now(),
   
@@ -28,22 +41,146 @@ const DEFAULT_GENOME: UXGenome = {
   cognitiveLoadThreshold: 0.5,
   cognitiveLoadThresholdMeta: createDefaultMeta(),
   
+  inputModality: 'pointer',
+  inputModalityMeta: createDefaultMeta(),
+  
   clickPrecision: 0.5,
   cursorSmoothness: 0.5,
   scrollBehavior: 'mixed',
   hoverDwellTime: 300,
   navigationDepthTolerance: 3,
   
+  customTraits: {},
+  contextProfiles: {},
+  devicePartitions: {},
+  
   learningEnabled: true,
 };
 
-function createDefaultMeta(): TraitMetadata {
-  return {
-    confidence: 0,
-    lastUpdated: Date.now(),
-    sampleCount: 0,
-    state: 'observing',
+/**
+ * Merge inferred updates into a genome, leaving locked traits untouched.
+ * Pure so the replay runner can reproduce store updates exactly.
+ */
+export function mergeGenomeUpdates(
+  genome: UXGenome,
+  updates: Partial<UXGenome>,
+  now: number
+): UXGenome {
+  const updatedGenome = {
+    ...genome,
+    ...updates,
+    lastUpdated: now,
   };
+  
+  // Don't update locked traits
+  Object.keys(updates).forEach((key) => {
+    const traitKey = key as keyof UXGenome;
+    const metaKey = `${traitKey}Meta` as keyof UXGenome;
+    const meta = updatedGenome[metaKey] as TraitMetadata | undefined;
+    
+    if (meta && meta.state === 'locked') {
+      // Revert to previous value
+      (updatedGenome as any)[traitKey] = (genome as any)[traitKey];
+    }
+  });
+  
+  // Custom traits carry their own metadata
+  if (updates.customTraits) {
+    const customTraits = { ...updates.customTraits };
+    Object.entries(genome.customTraits ?? {}).forEach(([key, previous]) => {
+      if (previous.meta.state === 'locked') {
+        customTraits[key] = previous;
+      }
+    });
+    updatedGenome.customTraits = customTraits;
+  }
+  
+  return updatedGenome;
+}
+
+/**
+ * Trait metadata lookup that works for built-in and custom traits
+ */
+function getTraitMeta(genome: UXGenome, trait: string): TraitMetadata | undefined {
+  const definition = traitRegistry.get(trait);
+  if (definition && !definition.builtin) {
+    return genome.customTraits?.[trait]?.meta ?? createDefaultMeta();
+  }
+  return genome[`${trait}Meta` as keyof UXGenome] as TraitMetadata | undefined;
+}
+
+function setTraitMeta(genome: UXGenome, trait: string, meta: TraitMetadata): UXGenome {
+  const definition = traitRegistry.get(trait);
+  if (definition && !definition.builtin) {
+    const current = genome.customTraits?.[trait];
+    return {
+      ...genome,
+      customTraits: {
+        ...genome.customTraits,
+        [trait]: { value: current?.value ?? definition.defaultValue, meta },
+      },
+    };
+  }
+  return { ...genome, [`${trait}Meta`]: meta };
+}
+
+/**
+ * Stamp every trait with a user action, so a reset or import wins over
+ * state learned in other tabs and devices when they sync
+ */
+function markUserAction(genome: UXGenome, now: number): UXGenome {
+  const updates: Partial<UXGenome> = {};
+  traitRegistry.list().forEach((definition) => {
+    const current = readTrait({ ...genome, ...updates }, definition);
+    writeTrait(updates, genome, definition, { ...current, meta: { ...current.meta, userActionAt: now } });
+  });
+  
+  // Unregistered custom traits are kept as they are, so stamp them too
+  const customTraits = { ...genome.customTraits, ...updates.customTraits };
+  Object.entries(customTraits).forEach(([key, state]) => {
+    customTraits[key] = { ...state, meta: { ...state.meta, userActionAt: now } };
+  });
+  
+  return { ...genome, ...updates, customTraits };
+}
+
+/**
+ * Drop imported custom trait values that fall outside their registered domain.
+ * Unregistered traits are kept so genomes stay portable between apps.
+ */
+function sanitizeCustomTraits(customTraits: UXGenome['customTraits']): Record<string, StoredTraitState> {
+  const sanitized: Record<string, StoredTraitState> = {};
+  Object.entries(customTraits ?? {}).forEach(([key, state]) => {
+    const definition = traitRegistry.get(key);
+    if (!state || !state.meta) return;
+    if (definition && !isValidTraitValue(definition, state.value)) return;
+    sanitized[key] = state;
+  });
+  return sanitized;
+}
+
+export type GenomeImportResult =
+  | { success: true }
+  | { success: false; errors: string[] }; // one message per problem, prefixed with its path
+
+/**
+ * Migrate and validate an untrusted genome
+ */
+function parseGenome(raw: unknown): { genome: UXGenome; errors?: undefined } | { genome?: undefined; errors: string[] } {
+  let migrated: Record<string, unknown>;
+  try {
+    migrated = migrateGenome(raw);
+  } catch (error) {
+    return { errors: [(error as Error).message] };
+  }
+  
+  const issues = validateGenome(migrated);
+  if (issues.length > 0) {
+    return { errors: issues.map(formatSchemaIssue) };
+  }
+  
+  const genome = migrated as unknown as UXGenome;
+  return { genome: { ...genome, customTraits: sanitizeCustomTraits(genome.customTraits) } };
 }
 
 interface GenomeStore {
@@ -52,10 +189,37 @@ interface GenomeStore {
   resetGenome: () => void;
   pauseLearning: (durationMs?: number) => void;
   resumeLearning: () => void;
-  lockTrait: (trait: keyof UXGenome) => void;
-  unlockTrait: (trait: keyof UXGenome) => void;
-  exportGenome: () => string;
-  importGenome: (json: string) => boolean;
+  lockTrait: (trait: string) => void;
+  unlockTrait: (trait: string) => void;
+  exportGenome: () => string; // full local genome, e.g. for backups
+  exportProfile: (issuer?: string) => string; // portable UX Genome Profile for other apps
+  importGenome: (json: string) => GenomeImportResult; // accepts profiles and full genome exports
+  
+  // Drift awaiting user confirmation
+  pendingDrift: DriftEvent[];
+  queueDrift: (events: DriftEvent[]) => void;
+  confirmDrift: (trait: string) => void;
+  rejectDrift: (trait: string) => void;
+  
+  // Recent explained inferences per trait, newest last
+  inferenceHistory: Record<string, TraitInference[]>;
+  recordInferences: (inferences: TraitInference[]) => void;
+  
+  // Interaction statistics per `data-genome-id` element
+  elementStats: Record<string, ElementStats>;
+  recordElementStats: (stats: Record<string, ElementStats>) => void;
+  
+  // Judged adaptation changes, newest last
+  outcomeHistory: AdaptationOutcome[];
+  recordOutcome: (outcome: AdaptationOutcome) => void;
+  
+  // Harmful changes rolled back, keyed by trait, so they stay rolled back across reloads
+  rollbacks: Record<string, Rollback>;
+  recordRollbacks: (rollbacks: Record<string, Rollback>) => void;
+  
+  // OS accessibility settings, re-read on every load
+  osPreferences: OSPreferences;
+  setOSPreferences: (preferences: OSPreferences) => void; // also seeds priors for traits not learned yet
 }
 
 export const useGenomeStore = create<GenomeStore>()(
@@ -64,31 +228,19 @@ export const useGenomeStore = create<GenomeStore>()(
       genome: DEFAULT_GENOME,
       
       updateGenome: (updates) => {
-        set((state) => {
-          const updatedGenome = {
-            ...state.genome,
-            ...updates,
-            lastUpdated: Date.now(),
-          };
-          
-          // Don't update locked traits
-          Object.keys(updates).forEach((key) => {
-            const traitKey = key as keyof UXGenome;
-            const metaKey = `${traitKey}Meta` as keyof UXGenome;
-            const meta = updatedGenome[metaKey] as TraitMetadata | undefined;
-            
-            if (meta && meta.state === 'locked') {
-              // Revert to previous value
-              (updatedGenome as any)[traitKey] = (state.genome as any)[traitKey];
-            }
-          });
-          
-          return { genome: updatedGenome };
-        });
+        set((state) => ({
+          genome: mergeGenomeUpdates(state.genome, updates, Date.now()),
+        }));
       },
       
       resetGenome: () => {
-        set({ genome: { ...DEFAULT_GENOME, createdAt: Date.now() } });
+        set((state) => {
+          const now = Date.now();
+          // Registered custom traits are written back as defaults, so the reset reaches other peers too
+          const genome = markUserAction({ ...DEFAULT_GENOME, createdAt: now, lastUpdated: now }, now);
+          const priors = seedOSPriors(genome, state.osPreferences);
+          return { genome: { ...genome, ...priors }, pendingDrift: [], inferenceHistory: {}, outcomeHistory: [], rollbacks: {}, elementStats: {} };
+        });
       },
       
       pauseLearning: (durationMs?: number) => {
@@ -119,18 +271,15 @@ export const useGenomeStore = create<GenomeStore>()(
       
       lockTrait: (trait) => {
         set((state) => {
-          const metaKey = `${trait}Meta` as keyof UXGenome;
-          const meta = state.genome[metaKey] as TraitMetadata | undefined;
+          const meta = getTraitMeta(state.genome, trait);
           
           if (meta) {
             return {
-              genome: {
-                ...state.genome,
-                [metaKey]: {
-                  ...meta,
-                  state: 'locked',
-                },
-              },
+              genome: setTraitMeta(state.genome, trait, {
+                ...meta,
+                state: 'locked',
+                userActionAt: Date.now(),
+              }),
             };
           }
           
@@ -140,18 +289,15 @@ export const useGenomeStore = create<GenomeStore>()(
       
       unlockTrait: (trait) => {
         set((state) => {
-          const metaKey = `${trait}Meta` as keyof UXGenome;
-          const meta = state.genome[metaKey] as TraitMetadata | undefined;
+          const meta = getTraitMeta(state.genome, trait);
           
           if (meta && meta.state === 'locked') {
             return {
-              genome: {
-                ...state.genome,
-                [metaKey]: {
-                  ...meta,
-                  state: meta.sampleCount > 10 ? 'confident' : 'tentative',
-                },
-              },
+              genome: setTraitMeta(state.genome, trait, {
+                ...meta,
+                state: meta.sampleCount > 10 ? 'confident' : 'tentative',
+                userActionAt: Date.now(),
+              }),
             };
           }
           
@@ -161,27 +307,146 @@ export const useGenomeStore = create<GenomeStore>()(
       
       exportGenome: () => {
         const genome = get().genome;
-        return JSON.stringify(genome, null, 2);
+        
+        // Every registered custom trait is exported, even before it has been inferred
+        const customTraits: Record<string, StoredTraitState> = { ...genome.customTraits };
+        traitRegistry.list().forEach((definition) => {
+          if (!definition.builtin) {
+            customTraits[definition.key] = readTrait(genome, definition);
+          }
+        });
+        
+        return JSON.stringify({ ...genome, customTraits }, null, 2);
       },
       
-      importGenome: (json) => {
-        try {
-          const imported = JSON.parse(json) as UXGenome;
+      exportProfile: (issuer) => {
+        const origin = issuer ?? (typeof window !== 'undefined' ? window.location.origin : 'unknown');
+        return JSON.stringify(createProfile(get().genome, origin), null, 2);
+      },
+      
+      pendingDrift: [],
+      
+      queueDrift: (events) => {
+        set((state) => ({
+          pendingDrift: [
+            ...state.pendingDrift.filter(pending => !events.some(e => e.trait === pending.trait)),
+            ...events,
+          ],
+        }));
+      },
+      
+      confirmDrift: (trait) => {
+        set((state) => {
+          const definition = traitRegistry.get(trait);
+          const pendingDrift = state.pendingDrift.filter(e => e.trait !== trait);
+          if (!definition) return { pendingDrift };
           
-          // Validate structure
-          if (!imported.version || !imported.createdAt) {
-            return false;
-          }
+          // The user agrees with the new behavior: trust it straight away
+          const current = readTrait(state.genome, definition);
+          const updates = writeTrait({}, state.genome, definition, {
+            value: current.value,
+            meta: { ...current.meta, confidence: Math.max(current.meta.confidence, 0.8), posterior: undefined, state: 'confident', lastUpdated: Date.now() },
+          });
+          
+          return { genome: { ...state.genome, ...updates }, pendingDrift };
+        });
+      },
+      
+      rejectDrift: (trait) => {
+        set((state) => {
+          const definition = traitRegistry.get(trait);
+          const event = state.pendingDrift.find(e => e.trait === trait);
+          const pendingDrift = state.pendingDrift.filter(e => e.trait !== trait);
+          if (!definition || !event) return { pendingDrift };
+          
+          // Restore the value the user had before the detected change
+          const current = readTrait(state.genome, definition);
+          const value = isValidTraitValue(definition, event.before.value) ? event.before.value : current.value;
+          const updates = writeTrait({}, state.genome, definition, {
+            value,
+            // Dropping the posterior re-derives it from the restored value
+            meta: { ...current.meta, posterior: undefined, state: 'tentative', lastUpdated: Date.now() },
+          });
           
-          set({ genome: imported });
-          return true;
+          return { genome: { ...state.genome, ...updates }, pendingDrift };
+        });
+      },
+      
+      inferenceHistory: {},
+      
+      recordInferences: (inferences) => {
+        set((state) => {
+          const inferenceHistory = { ...state.inferenceHistory };
+          inferences.forEach((inference) => {
+            const history = inferenceHistory[inference.trait] ?? [];
+            inferenceHistory[inference.trait] = [...history, inference].slice(-INFERENCE_HISTORY_SIZE);
+          });
+          return { inferenceHistory };
+        });
+      },
+      
+      elementStats: {},
+      
+      recordElementStats: (stats) => {
+        set({ elementStats: stats });
+      },
+      
+      outcomeHistory: [],
+      
+      recordOutcome: (outcome) => {
+        set((state) => ({
+          outcomeHistory: [...state.outcomeHistory, outcome].slice(-OUTCOME_HISTORY_SIZE),
+        }));
+      },
+      
+      rollbacks: {},
+      
+      recordRollbacks: (rollbacks) => {
+        set({ rollbacks });
+      },
+      
+      osPreferences: NO_OS_PREFERENCES,
+      
+      setOSPreferences: (preferences) => {
+        set((state) => {
+          const priors = seedOSPriors(state.genome, preferences);
+          return {
+            osPreferences: preferences,
+            genome: priors ? { ...state.genome, ...priors } : state.genome,
+          };
+        });
+      },
+      
+      importGenome: (json) => {
+        let raw: unknown;
+        try {
+          raw = JSON.parse(json);
         } catch {
-          return false;
+          return { success: false, errors: ['The file is not valid JSON'] };
+        }
+        
+        // Portable profile: only carries cross-app traits, merged into the local genome
+        if (isProfileDocument(raw)) {
+          const issues = validateProfile(raw);
+          if (issues.length > 0) {
+            return { success: false, errors: issues.map(formatSchemaIssue) };
+          }
+          set((state) => ({ genome: applyProfile(state.genome, raw as UXGenomeProfile) }));
+          return { success: true };
         }
+        
+        // Full genome export: upgrade older versions, then validate every field
+        const { genome, errors } = parseGenome(raw);
+        if (!genome) {
+          return { success: false, errors };
+        }
+        
+        set({ genome: markUserAction(genome, Date.now()) });
+        return { success: true };
       },
     }),
     {
-      name: 'ux-genome-storage',
+      name: GENOME_STORAGE_KEY,
       storage: typeof window !== 'undefined' 
         ? createJSONStorage(() => localStorage)
         : createJSONStorage(() => ({
@@ -189,7 +454,26 @@ export const useGenomeStore = create<GenomeStore>()(
             setItem: () => {},
             removeItem: () => {},
           })),
-      version: 1,
+      // v2: genomes are migrated to GENOME_VERSION and validated on rehydration
+      version: 2,
+      migrate: (persistedState) => {
+        const state = persistedState as Partial<GenomeStore>;
+        const { genome } = parseGenome(state.genome);
+        return { ...state, genome: genome ?? DEFAULT_GENOME } as GenomeStore;
+      },
+      // OS preferences describe this device right now, so they are never stored
+      partialize: ({ osPreferences, ...state }) => state,
+      merge: (persistedState, currentState) => {
+        const state = (persistedState ?? {}) as Partial<GenomeStore>;
+        if (!state.genome) return { ...currentState, ...state };
+        
+        // A corrupted or tampered genome must not break the app: fall back to the default
+        const { genome, errors } = parseGenome(state.genome);
+        if (!genome) {
+          console.warn('Discarding stored UX genome:', errors);
+        }
+        return { ...currentState, ...state, genome: genome ?? currentState.genome };
+      },
     }
   )
 );
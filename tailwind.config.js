@@ -1,3 +1,8 @@
+const plugin = require('tailwindcss/plugin')
+
+// Boolean adaptation rules, set as data attributes on <html> by applyAdaptationRules
+const genomeFlags = ['autofocus', 'focus-rings', 'skip-links', 'high-contrast', 'reduced-transparency', 'forced-colors']
+
 /** @type {import('tailwindcss').Config} */
 module.exports = {
   content: [
@@ -19,13 +24,49 @@ module.exports = {
         'genome-balanced': 'var(--genome-animation-balanced)',
         'genome-slow': 'var(--genome-animation-slow)',
       },
+      transitionTimingFunction: {
+        genome: 'var(--genome-transition-timing)',
+      },
+      transitionDelay: {
+        'genome-tooltip': 'var(--genome-tooltip-delay)',
+      },
       spacing: {
         'genome-compact': 'var(--genome-spacing-compact)',
         'genome-standard': 'var(--genome-spacing-standard)',
         'genome-spacious': 'var(--genome-spacing-spacious)',
       },
+      // Scaled up on elements found hard to hit (see lib/adaptation/elements.ts)
+      minHeight: {
+        'genome-button-small': 'calc(var(--genome-button-small-height) * var(--genome-target-scale, 1))',
+        'genome-button-standard': 'calc(var(--genome-button-standard-height) * var(--genome-target-scale, 1))',
+        'genome-button-large': 'calc(var(--genome-button-large-height) * var(--genome-target-scale, 1))',
+      },
+      height: {
+        'genome-button-small': 'calc(var(--genome-button-small-height) * var(--genome-target-scale, 1))',
+        'genome-button-standard': 'calc(var(--genome-button-standard-height) * var(--genome-target-scale, 1))',
+        'genome-button-large': 'calc(var(--genome-button-large-height) * var(--genome-target-scale, 1))',
+      },
+      ringWidth: {
+        'genome-focus': 'var(--genome-focus-width)',
+      },
+      outlineWidth: {
+        'genome-focus': 'var(--genome-focus-width)',
+      },
+      gridTemplateColumns: {
+        'genome-chunk': 'repeat(var(--genome-chunk-size), minmax(0, 1fr))',
+      },
+      opacity: {
+        'genome-surface': 'var(--genome-surface-opacity)',
+      },
     },
   },
-  plugins: [],
+  plugins: [
+    // e.g. `genome-high-contrast:border-2`
+    plugin(({ addVariant }) => {
+      genomeFlags.forEach((flag) => {
+        addVariant(`genome-${flag}`, `html[data-genome-${flag}="true"] &`)
+      })
+    }),
+  ],
 }
 
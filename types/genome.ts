@@ -9,6 +9,7 @@ export type MotionSensitivity = 'low' | 'medium' | 'high';
 export type InteractionSpeed = 'fast' | 'balanced' | 'slow';
 export type LayoutDensity = 'compact' | 'standard' | 'spacious';
 export type GuidanceNeed = 'minimal' | 'contextual' | 'strong';
+export type InputModality = 'keyboard' | 'mixed' | 'pointer';
 export type LearningState = 'observing' | 'tentative' | 'confident' | 'locked' | 'paused';
 
 export interface TraitMetadata {
@@ -16,6 +17,38 @@ export interface TraitMetadata {
   lastUpdated: number; // timestamp
   sampleCount: number; // number of observations
   state: LearningState;
+  posterior?: TraitPosterior; // belief the value and confidence are read from
+  userActionAt?: number; // last lock, unlock, reset or import; a newer one wins over learned state when syncing
+}
+
+// Belief about a trait given the evidence so far
+export type TraitPosterior =
+  | { kind: 'gaussian'; mean: number; variance: number; updatedAt: number } // over the trait's 0-1 score
+  | { kind: 'dirichlet'; counts: Record<string, number>; updatedAt: number }; // pseudo-counts per categorical value
+
+export interface StoredTraitState {
+  value: string | number;
+  meta: TraitMetadata;
+}
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop';
+export type PointerType = 'mouse' | 'pen' | 'touch';
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+export type DayType = 'weekday' | 'weekend';
+export type TemporalContextKey = TimeOfDay | DayType;
+
+export interface ContextProfile {
+  traits: Record<string, StoredTraitState>; // keyed by trait key
+  sampleCount: number; // inference passes that contributed to this context
+  lastUpdated: number;
+}
+
+export interface DevicePartition extends ContextProfile {
+  deviceType: DeviceType;
+  pointerType: PointerType;
+  clickPrecision: number; // per-device derived metrics
+  cursorSmoothness: number;
 }
 
 export interface UXGenome {
@@ -39,6 +72,9 @@ export interface UXGenome {
   cognitiveLoadThreshold: number; // 0-1, when to simplify UI
   cognitiveLoadThresholdMeta: TraitMetadata;
   
+  inputModality: InputModality; // how the user mainly navigates
+  inputModalityMeta: TraitMetadata;
+  
   // Derived Metrics
   clickPrecision: number; // 0-1, higher = more precise
   cursorSmoothness: number; // 0-1, higher = smoother
@@ -46,15 +82,53 @@ export interface UXGenome {
   hoverDwellTime: number; // milliseconds
   navigationDepthTolerance: number; // how many levels deep user navigates
   
+  // App-defined traits registered through the trait registry
+  customTraits?: Record<string, StoredTraitState>;
+  
+  // Sub-profiles learned per time of day / day of week
+  contextProfiles?: Partial<Record<TemporalContextKey, ContextProfile>>;
+  
+  // Sub-profiles learned per device class and pointer type, keyed "desktop:mouse"
+  devicePartitions?: Record<string, DevicePartition>;
+  
   // System State
   learningEnabled: boolean;
   pausedUntil?: number; // timestamp when to resume learning
 }
 
+export type ContrastPreference = 'no-preference' | 'more' | 'less' | 'custom';
+
+// Accessibility settings the operating system exposes through media queries
+export interface OSPreferences {
+  reducedMotion: boolean; // prefers-reduced-motion: reduce
+  contrast: ContrastPreference; // prefers-contrast
+  reducedTransparency: boolean; // prefers-reduced-transparency: reduce
+  forcedColors: boolean; // forced-colors: active (e.g. Windows High Contrast)
+}
+
+export interface SignalDeviceContext {
+  deviceType: DeviceType;
+  pointerType: PointerType;
+}
+
+/**
+ * Identity of an element that opted in with `data-genome-id` (and optionally
+ * `data-genome-role`). Only these developer-chosen names are recorded, never content.
+ */
+export interface ElementAttribution {
+  id: string;
+  role?: string;
+}
+
 export interface InteractionSignal {
-  type: 'click' | 'cursor' | 'scroll' | 'hover' | 'focus' | 'keyboard' | 'resize';
+  type:
+    | 'click' | 'cursor' | 'scroll' | 'hover' | 'focus' | 'keyboard' | 'resize'
+    | 'tap' | 'longpress' | 'pinch' | 'swipe' | 'ragetap'
+    | 'tooltipshown' | 'tooltipdismissed';
   timestamp: number;
   data: Record<string, any>;
+  device?: SignalDeviceContext; // device the signal was captured on
+  target?: ElementAttribution; // attributed element, for clicks, taps, hovers and focus
 }
 
 export interface ClickSignal extends InteractionSignal {
@@ -64,6 +138,7 @@ export interface ClickSignal extends InteractionSignal {
     missDistance?: number; // pixels from target if miss
     correctionCount: number; // number of corrections before click
     timeToClick: number; // ms from hover/visible to click
+    keyboard?: boolean; // activated with Enter or Space, so not aimed (no size, miss or timing)
   };
 }
 
@@ -93,7 +168,7 @@ export interface HoverSignal extends InteractionSignal {
   data: {
     element: string; // element type
     dwellTime: number; // ms
-    triggered: boolean; // did it trigger an action
+    triggered: boolean; // the element was clicked or focused during the hover
   };
 }
 
@@ -103,13 +178,19 @@ export interface FocusSignal extends InteractionSignal {
     element: string;
     timeToFocus: number; // ms from page load or last focus
     tabCount: number; // number of tabs to reach this
+    focusVisible: boolean; // the browser showed a focus ring after keyboard input
+    viaTab: boolean; // focus moved right after a Tab press
   };
 }
 
+// Keys are reduced to these before they leave the event handler; typed content is never recorded
+export type KeyCategory = 'navigation' | 'editing' | 'character';
+
 export interface KeyboardSignal extends InteractionSignal {
   type: 'keyboard';
   data: {
-    key: string;
+    category: KeyCategory;
+    shortcut: boolean; // pressed with Ctrl, Alt or Meta
     timeSinceLastKey: number;
     isCorrection: boolean; // backspace/delete
   };
@@ -120,7 +201,67 @@ export interface ResizeSignal extends InteractionSignal {
   data: {
     width: number;
     height: number;
-    deviceType: 'mobile' | 'tablet' | 'desktop';
+    deviceType: DeviceType;
+  };
+}
+
+export interface TapSignal extends InteractionSignal {
+  type: 'tap';
+  data: {
+    targetSize: number; // area of the tapped (or nearest) interactive target
+    missDistance?: number; // pixels from the nearest target's center if missed
+    duration: number; // ms between touch down and up
+    movement: number; // pixels the finger drifted during the tap
+    accidental: boolean; // brushed or grazing contact
+  };
+}
+
+export interface LongPressSignal extends InteractionSignal {
+  type: 'longpress';
+  data: {
+    duration: number;
+    movement: number;
+  };
+}
+
+export interface PinchSignal extends InteractionSignal {
+  type: 'pinch';
+  data: {
+    scale: number; // > 1 zoom in, < 1 zoom out
+    duration: number;
+  };
+}
+
+export interface SwipeSignal extends InteractionSignal {
+  type: 'swipe';
+  data: {
+    direction: 'up' | 'down' | 'left' | 'right';
+    distance: number;
+    velocity: number; // pixels per ms
+    duration: number;
+  };
+}
+
+export interface RageTapSignal extends InteractionSignal {
+  type: 'ragetap';
+  data: {
+    tapCount: number; // rapid taps in one spot
+    duration: number;
+    radius: number; // spread of the taps in pixels
+  };
+}
+
+export interface TooltipShownSignal extends InteractionSignal {
+  type: 'tooltipshown';
+  data: {
+    delay: number; // ms of hover before it appeared
+  };
+}
+
+export interface TooltipDismissedSignal extends InteractionSignal {
+  type: 'tooltipdismissed';
+  data: {
+    visibleDuration: number; // ms it stayed on screen
   };
 }
 
@@ -131,7 +272,14 @@ export type SignalCollection =
   | HoverSignal 
   | FocusSignal 
   | KeyboardSignal 
-  | ResizeSignal;
+  | ResizeSignal
+  | TapSignal
+  | LongPressSignal
+  | PinchSignal
+  | SwipeSignal
+  | RageTapSignal
+  | TooltipShownSignal
+  | TooltipDismissedSignal;
 
 export interface SignalBuffer {
   signals: SignalCollection[];
@@ -140,10 +288,37 @@ export interface SignalBuffer {
   maxAge: number; // ms
 }
 
+export interface EvidenceFactor {
+  key: string;
+  label: string; // plain-language name of the input
+  input: number; // aggregate measured from the signals
+  unit: 'ratio' | 'ms' | 'px' | 'px/ms' | 'count' | 'score';
+  subScore: number; // normalized contribution before weighting
+  weight: number;
+}
+
+export interface EvidenceThreshold {
+  value: number;
+  label: string; // value chosen when the score is above the threshold
+  crossed: boolean;
+}
+
+export interface TraitEvidence {
+  samples: Record<string, number>; // signal counts the pass was based on
+  factors: EvidenceFactor[];
+  score: number; // weighted sum of the factors
+  thresholds: EvidenceThreshold[];
+}
+
 export interface TraitInference {
-  trait: keyof UXGenome;
+  trait: string;
+  timestamp: number;
   value: any;
-  confidence: number;
+  previousValue: any;
+  passValue: string | number; // value this single pass inferred, before the posterior update
+  passConfidence: number; // confidence of this single pass
+  confidence: number; // trait confidence after the update
+  confidenceDelta: number;
+  evidence?: TraitEvidence;
   reasoning: string[];
 }
-